@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { collectArgCandidates, findRepoCandidates, formatArgRecoverySection, recoverUpgradeArgs } from '../arg-recovery.js';
+import { candidArgHash } from '../candid-encode.js';
+
+const DID = `
+type MigrationCanisterInitArgs = record { allowlist : opt vec principal };
+service : (MigrationCanisterInitArgs) -> {};
+`;
+
+const PREVIOUS = {
+  proposalId: '139870',
+  argHash: null,
+  upgradeArgs: '(record {allowlist = opt vec {principal "aaaaa-aa"}})',
+  upgradeArgsDid: null,
+  upgradeArgsType: null,
+};
+
+// A checkout with an argument file next to the canister's .did file, and release notes
+function buildRepo(): string {
+  const repo = mkdtempSync(join(tmpdir(), 'repo-'));
+  mkdirSync(join(repo, 'rs/migration_canister'), { recursive: true });
+  writeFileSync(join(repo, 'rs/migration_canister/migration_canister.did'), DID);
+  writeFileSync(join(repo, 'rs/migration_canister/init_args.did'), '(record { allowlist = null })\n');
+  writeFileSync(join(repo, 'rs/migration_canister/CHANGELOG.md'), [
+    '# Changelog',
+    '## Upgrade arguments',
+    '```candid',
+    '(record { allowlist = opt vec {} })',
+    '```',
+    '```bash',
+    'cargo build',
+    '```',
+  ].join('\n'));
+  // Neither parses as Candid, so neither is a candidate
+  writeFileSync(join(repo, 'rs/migration_canister/test_args.txt'), '--release --locked');
+  mkdirSync(join(repo, 'target'));
+  writeFileSync(join(repo, 'target/args.txt'), '(42)');
+  return repo;
+}
+
+describe('findRepoCandidates', () => {
+  it('finds argument files and release-note arguments, typed by the .did file next to them', () => {
+    const candidates = findRepoCandidates(buildRepo());
+    expect(candidates).toEqual([
+      { source: 'repo', origin: 'rs/migration_canister/CHANGELOG.md', args: '(record { allowlist = opt vec {} })', didFile: null, types: null },
+      { source: 'repo', origin: 'rs/migration_canister/init_args.did', args: '(record { allowlist = null })', didFile: 'rs/migration_canister/migration_canister.did', types: null },
+    ]);
+  });
+
+  it('finds nothing without a checkout', () => {
+    expect(findRepoCandidates(join(tmpdir(), 'no-such-repo'))).toEqual([]);
+  });
+});
+
+describe('collectArgCandidates', () => {
+  it('ranks the empty arguments, then the repo, then the previous proposal', () => {
+    const candidates = collectArgCandidates(buildRepo(), { ...PREVIOUS, upgradeArgs: '(record { allowlist = null })', upgradeArgsDid: 'rs/migration_canister/migration_canister.did' });
+    expect(candidates.map(c => `${c.source} ${c.args}`)).toEqual([
+      'empty ()',
+      'empty (null)',
+      'repo (record { allowlist = opt vec {} })',
+      'repo (record { allowlist = null })',
+    ]);
+  });
+});
+
+describe('recoverUpgradeArgs', () => {
+  it('recovers the repo arguments when typed by the service .did file', () => {
+    const repo = buildRepo();
+    const expected = candidArgHash('(record { allowlist = null })', { did: DID });
+    const recovery = recoverUpgradeArgs(expected.toUpperCase(), collectArgCandidates(repo, PREVIOUS), [], repo);
+
+    expect(recovery.match?.candidate.origin).toBe('rs/migration_canister/init_args.did');
+    expect(recovery.match?.typing).toEqual({ didFile: 'rs/migration_canister/migration_canister.did', types: null });
+    expect(recovery.match?.decoded).toBe('(record { allowlist = null })');
+    expect(recovery.results.filter(r => r.match)).toHaveLength(1);
+    // Untyped, the same text is a record with a null field, which hashes differently
+    expect(candidArgHash('(record { allowlist = null })')).not.toBe(expected);
+  });
+
+  it('tries the shared typings on every candidate', () => {
+    const repo = buildRepo();
+    // Untyped, vec {} is a vec empty; typed, it is an empty vec principal
+    const expected = candidArgHash('(record { allowlist = opt vec {} })', { did: DID });
+    const typings = [{ didFile: 'rs/migration_canister/migration_canister.did', types: null }];
+
+    expect(recoverUpgradeArgs(expected, collectArgCandidates(repo, PREVIOUS), [], repo).match).toBeNull();
+    const recovery = recoverUpgradeArgs(expected, collectArgCandidates(repo, PREVIOUS), typings, repo);
+    expect(recovery.match?.candidate.origin).toBe('rs/migration_canister/CHANGELOG.md');
+    expect(recovery.match?.typing).toEqual(typings[0]);
+    expect(recovery.match?.decoded).toBe('(record { allowlist = opt vec {} })');
+  });
+
+  it('prefers the best ranked match and notes an unchanged arg hash', () => {
+    const expected = candidArgHash('()');
+    const recovery = recoverUpgradeArgs(expected, collectArgCandidates(buildRepo(), PREVIOUS), [], 'repo', { ...PREVIOUS, argHash: expected });
+
+    expect(recovery.match?.candidate.origin).toBe('no arguments');
+    expect(recovery.match?.typing).toBeNull();
+    expect(recovery.sameAsPrevious).toBe('139870');
+  });
+
+  it('reports every candidate, with the error when one cannot be encoded', () => {
+    const candidates = [{ source: 'previous-proposal' as const, origin: 'proposal 1', args: '(1)', didFile: null, types: '(Missing)' }];
+    const recovery = recoverUpgradeArgs('00'.repeat(32), candidates, [], 'repo');
+
+    expect(recovery.match).toBeNull();
+    // The untyped fallback still encodes, and the failed typing is kept
+    expect(recovery.results[0]).toMatchObject({ argHash: candidArgHash('(1)'), decoded: '(1)' });
+    expect(recovery.results[0].error).toMatch(/Missing/);
+  });
+
+  it('reads .did files only from inside the checkout', () => {
+    const repo = buildRepo();
+    const outside = mkdtempSync(join(tmpdir(), 'outside-'));
+    writeFileSync(join(outside, 'service.did'), DID);
+    symlinkSync(join(outside, 'service.did'), join(repo, 'linked.did'));
+    const expected = candidArgHash('(record { allowlist = null })', { did: DID });
+    const candidate = (didFile: string) => ({ source: 'previous-proposal' as const, origin: 'proposal 1', args: '(record { allowlist = null })', didFile, types: null });
+
+    const errors = ['missing.did', join('..', basename(outside), 'service.did'), join(outside, 'service.did'), 'linked.did']
+      .map(didFile => recoverUpgradeArgs(expected, [candidate(didFile)], [], repo).results[0]);
+    expect(errors.every(r => !r.match && r.typing === null)).toBe(true);
+    expect(errors.map(r => r.error)).toEqual([
+      '.did file missing.did not found in the checkout',
+      `.did file ${join('..', basename(outside), 'service.did')} is outside the checkout`,
+      `.did file ${join(outside, 'service.did')} is outside the checkout`,
+      '.did file linked.did links outside the checkout',
+    ]);
+    expect(formatArgRecoverySection(recoverUpgradeArgs(expected, [candidate('missing.did')], [], repo)))
+      .toContain('untyped (didc defaults) (typed encoding failed: .did file missing.did not found in the checkout)');
+  });
+});
+
+describe('formatArgRecoverySection', () => {
+  it('shows the decoded value of the match and every candidate tried', () => {
+    const repo = buildRepo();
+    const recovery = recoverUpgradeArgs(candidArgHash('(record { allowlist = null })', { did: DID }), collectArgCandidates(repo, null), [], repo);
+    const section = formatArgRecoverySection(recovery);
+
+    expect(section).toContain('⚠️ RECOVERED');
+    expect(section).toContain('**Decoded arguments:** `(record { allowlist = null })`');
+    expect(section).toContain('| 4 | repo | rs/migration_canister/init_args.did | `(record { allowlist = null })` | rs/migration_canister/migration_canister.did |');
+    expect(formatArgRecoverySection(recoverUpgradeArgs('00'.repeat(32), collectArgCandidates(repo, null), [], repo))).toContain('❌ NO CANDIDATE MATCHES');
+  });
+});
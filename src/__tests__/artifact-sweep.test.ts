@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_SWEEP_ROOTS, formatArtifactSweepSection, sweepArtifacts, sweepRoots } from '../artifact-sweep.js';
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// A checkout whose bazel-bin is a symlink into an output base elsewhere, as Bazel leaves it
+function buildTree(): string {
+  const repo = mkdtempSync(join(tmpdir(), 'repo-'));
+  const outputBase = mkdtempSync(join(tmpdir(), 'bazel-out-'));
+  mkdirSync(join(outputBase, 'rs/nns/governance'), { recursive: true });
+  writeFileSync(join(outputBase, 'rs/nns/governance/governance-canister.wasm.gz'), 'governance');
+  writeFileSync(join(outputBase, 'rs/nns/governance/governance.did'), 'service : {}');
+  symlinkSync(outputBase, join(repo, 'bazel-bin'));
+  mkdirSync(join(repo, 'artifacts/canisters'), { recursive: true });
+  writeFileSync(join(repo, 'artifacts/canisters/ledger-canister.wasm'), 'ledger');
+  mkdirSync(join(repo, 'src'));
+  writeFileSync(join(repo, 'src/not-an-output.wasm'), 'source');
+  return repo;
+}
+
+describe('sweepRoots', () => {
+  it('adds the extracted directory when no default root covers it', () => {
+    expect(sweepRoots('./artifacts/canisters/x.wasm.gz')).toEqual(DEFAULT_SWEEP_ROOTS);
+    expect(sweepRoots('x.wasm')).toEqual(DEFAULT_SWEEP_ROOTS);
+    expect(sweepRoots('out/release/x.wasm')).toEqual([...DEFAULT_SWEEP_ROOTS, 'out/release']);
+  });
+});
+
+describe('sweepArtifacts', () => {
+  it('hashes every WASM under the roots, following the bazel-bin symlink', () => {
+    const sweep = sweepArtifacts(buildTree(), DEFAULT_SWEEP_ROOTS, sha256('governance').toUpperCase());
+    expect(sweep.artifacts.map(a => a.path)).toEqual([
+      'artifacts/canisters/ledger-canister.wasm',
+      'bazel-bin/rs/nns/governance/governance-canister.wasm.gz',
+    ]);
+    expect(sweep.match).toEqual({ path: 'bazel-bin/rs/nns/governance/governance-canister.wasm.gz', sha256: sha256('governance'), sizeBytes: 10 });
+  });
+
+  it('has no match when nothing has the expected hash', () => {
+    const sweep = sweepArtifacts(buildTree(), DEFAULT_SWEEP_ROOTS, sha256('other'));
+    expect(sweep.artifacts).toHaveLength(2);
+    expect(sweep.match).toBeNull();
+  });
+});
+
+describe('formatArtifactSweepSection', () => {
+  it('records the extraction error and marks the matching artifact', () => {
+    const sweep = sweepArtifacts(buildTree(), DEFAULT_SWEEP_ROOTS, sha256('ledger'));
+    const section = formatArtifactSweepSection(JSON.parse(JSON.stringify(sweep)), {
+      extracted: null,
+      actual: 'artifacts/canisters/ledger-canister.wasm',
+      extractionError: 'No WASM at artifacts/ledger.wasm; artifacts/canisters/ledger-canister.wasm has the expected hash',
+    });
+    expect(section).toContain('⚠️ PATH CORRECTED');
+    expect(section).toContain('> ⚠️ No WASM at artifacts/ledger.wasm');
+    expect(section).toContain('| `artifacts/canisters/ledger-canister.wasm` ✅ |');
+  });
+});
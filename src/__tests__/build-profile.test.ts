@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { detectBuildProfile, normalizeRepoUrl } from '../extract-build-steps.js';
+import { detectBuildProfile, matchExpectedOutput, getBuildProfile, normalizeRepoUrl } from '../build-profiles.js';
 
 describe('normalizeRepoUrl', () => {
   it('strips trailing .git', () => {
@@ -44,12 +44,12 @@ describe('detectBuildProfile', () => {
     expect(detectBuildProfile('https://github.com/dfinity/ic.git')).toBe('ic-monorepo');
   });
 
-  it('detects dfinity/ic-boundary as standard (NOT ic-monorepo)', () => {
-    expect(detectBuildProfile('https://github.com/dfinity/ic-boundary')).toBe('standard');
+  it('detects dfinity/ic-boundary as its own profile (NOT ic-monorepo)', () => {
+    expect(detectBuildProfile('https://github.com/dfinity/ic-boundary')).toBe('ic-boundary');
   });
 
-  it('detects dfinity/dogecoin-canister as standard', () => {
-    expect(detectBuildProfile('https://github.com/dfinity/dogecoin-canister')).toBe('standard');
+  it('detects dfinity/dogecoin-canister as dogecoin-canister', () => {
+    expect(detectBuildProfile('https://github.com/dfinity/dogecoin-canister')).toBe('dogecoin-canister');
   });
 
   it('detects dfinity/ic with /tree/ suffix as ic-monorepo', () => {
@@ -60,7 +60,25 @@ describe('detectBuildProfile', () => {
     expect(detectBuildProfile('https://github.com/dfinity/ic/commit/abc123')).toBe('ic-monorepo');
   });
 
-  it('detects unknown repos as standard', () => {
-    expect(detectBuildProfile('https://github.com/some-org/some-repo')).toBe('standard');
+  it('detects unknown repos by their build commands', () => {
+    expect(detectBuildProfile('https://github.com/some-org/some-repo', ['dfx build --network ic'])).toBe('dfx');
+    expect(detectBuildProfile('https://github.com/some-org/some-repo', ['cargo build --release'])).toBe('cargo');
+  });
+
+  it('falls back to the default profile for unknown repos', () => {
+    expect(detectBuildProfile('https://github.com/some-org/some-repo')).toBe('cargo');
+  });
+});
+
+describe('matchExpectedOutput', () => {
+  it('matches output paths against the profile globs', () => {
+    const ic = getBuildProfile('ic-monorepo');
+    expect(matchExpectedOutput(ic, './artifacts/canisters/migration-canister.wasm.gz')).toBe('artifacts/canisters/*.wasm.gz');
+    expect(matchExpectedOutput(ic, 'artifacts/canisters/sub/x.wasm.gz')).toBeNull();
+    expect(matchExpectedOutput(getBuildProfile('dfx'), '.dfx/ic/canisters/backend/backend.wasm')).toBe('.dfx/ic/canisters/**/*.wasm');
+  });
+
+  it('rejects unknown profile names', () => {
+    expect(() => getBuildProfile('standard')).toThrow('Unknown build profile "standard"');
   });
 });
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { compareWithRecipe, loadOverride, loadRecipe, recipeFields } from '../build-recipes.js';
+import { extractBuildStepsByRules, extractUpgradeArgsByRules } from '../rule-extractor.js';
+import { deserializeFixture } from '../governance-client.js';
+
+const RECIPES_DIR = fileURLToPath(new URL('../../config/recipes', import.meta.url));
+const MIGRATION_CANISTER = 'sbzkb-zqaaa-aaaaa-aaaiq-cai';
+
+function fixtureSummary(): string {
+  const fixture = fileURLToPath(new URL('./fixtures/governance/get_proposal_info/139995.json', import.meta.url));
+  return deserializeFixture(readFileSync(fixture, 'utf-8'))[0].proposal[0].summary;
+}
+
+function writeOverride(body: object): string {
+  const dir = mkdtempSync(join(tmpdir(), 'overrides-'));
+  writeFileSync(join(dir, '139995.json'), JSON.stringify(body));
+  return dir;
+}
+
+const OVERRIDE = {
+  proposalId: '139995',
+  reason: 'Summary names the wrong artifact',
+  repoUrl: 'https://github.com/dfinity/ic',
+  bazelTarget: '//rs/migration_canister:migration-canister',
+  steps: ['./ci/container/build-ic.sh -c'],
+  wasmOutputPath: 'artifacts/canisters/migration-canister.wasm.gz',
+  upgradeArgs: '(record {allowlist = null})',
+  upgradeArgsDid: null,
+  upgradeArgsType: null,
+};
+
+describe('loadRecipe', () => {
+  it('agrees with what the rules extract from proposal 139995', () => {
+    const recipe = loadRecipe(MIGRATION_CANISTER, RECIPES_DIR)!;
+    const summary = fixtureSummary();
+    const fields = recipeFields(recipe, extractUpgradeArgsByRules(summary));
+
+    const rules = extractBuildStepsByRules(summary);
+    expect(rules.ok).toBe(true);
+    expect(rules.ok && rules.fields).toEqual(fields);
+    expect(compareWithRecipe(recipe, fields, 'rules')).toEqual([]);
+  });
+
+  it('returns null for canisters without a recipe', () => {
+    expect(loadRecipe('aaaaa-aa', RECIPES_DIR)).toBeNull();
+  });
+
+  it('rejects a Bazel target that is not a plain label', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'recipes-'));
+    const recipe = JSON.parse(readFileSync(join(RECIPES_DIR, `${MIGRATION_CANISTER}.json`), 'utf-8'));
+    writeFileSync(join(dir, `${MIGRATION_CANISTER}.json`), JSON.stringify({ ...recipe, bazelTarget: '//rs:x; curl evil' }));
+    expect(() => loadRecipe(MIGRATION_CANISTER, dir)).toThrow(/not a Bazel label/);
+  });
+});
+
+describe('loadOverride', () => {
+  it('loads a valid override', () => {
+    expect(loadOverride('139995', writeOverride(OVERRIDE))).toEqual(OVERRIDE);
+    expect(loadOverride('139996', writeOverride(OVERRIDE))).toBeNull();
+  });
+
+  it('requires a reason', () => {
+    expect(() => loadOverride('139995', writeOverride({ ...OVERRIDE, reason: ' ' }))).toThrow(/reason/);
+  });
+
+  it('validates fields like LLM output', () => {
+    const dir = writeOverride({ ...OVERRIDE, steps: ['git checkout main'], wasmOutputPath: '/tmp/x.wasm' });
+    expect(() => loadOverride('139995', dir)).toThrow(/runs git.*must be a relative path/);
+  });
+});
+
+describe('compareWithRecipe', () => {
+  it('reports build fields that differ, ignoring upgrade arguments', () => {
+    const recipe = loadRecipe(MIGRATION_CANISTER, RECIPES_DIR)!;
+    const extracted = {
+      ...recipeFields(recipe, { upgradeArgs: '(record {})', upgradeArgsDid: null, upgradeArgsType: null }),
+      wasmOutputPath: 'artifacts/canisters/other.wasm.gz',
+    };
+    expect(compareWithRecipe(recipe, extracted, 'llm')).toEqual([{
+      source: 'llm',
+      field: 'wasmOutputPath',
+      recipe: 'artifacts/canisters/migration-canister.wasm.gz',
+      extracted: 'artifacts/canisters/other.wasm.gz',
+    }]);
+  });
+});
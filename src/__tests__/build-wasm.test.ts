@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { bazelBuildCommand, bazelOutputPath, createRebuildWorkspace, locateArtifact, resolveBazelTarget, runCommand } from '../build-wasm.js';
+
+const TARGETS_FILE = `
+CANISTERS = {
+    "governance-canister.wasm.gz": "//rs/nns/governance:governance-canister",
+    "ledger-canister.wasm.gz": "//rs/ledger_suite/icp/ledger:ledger-canister",
+    "evil.wasm.gz": "//rs:x; curl example.com",
+}
+`;
+
+describe('resolveBazelTarget', () => {
+  it('looks the WASM up in the CANISTERS dict', () => {
+    expect(resolveBazelTarget(TARGETS_FILE, 'governance-canister.wasm.gz')).toBe('//rs/nns/governance:governance-canister');
+    expect(resolveBazelTarget(TARGETS_FILE, 'ledger-canister.wasm.gz')).toBe('//rs/ledger_suite/icp/ledger:ledger-canister');
+  });
+
+  it('ignores unknown names and anything that is not a plain label', () => {
+    expect(resolveBazelTarget(TARGETS_FILE, 'migration-canister.wasm.gz')).toBeNull();
+    expect(resolveBazelTarget(TARGETS_FILE, 'evil.wasm.gz')).toBeNull();
+  });
+});
+
+describe('bazelOutputPath', () => {
+  it('maps a label to its bazel-bin output', () => {
+    expect(bazelOutputPath('//rs/nns/governance:governance-canister')).toBe('bazel-bin/rs/nns/governance/governance-canister.wasm.gz');
+  });
+});
+
+describe('bazelBuildCommand', () => {
+  it('builds locally when no remote cache is configured', () => {
+    expect(bazelBuildCommand('//rs/x:y', {})).toEqual({
+      argv: ['bazel', 'build', '--config=local', '--config=stamped', '//rs/x:y'],
+      bazelrc: null,
+    });
+  });
+
+  it('keeps the cache token in a private bazelrc file, not on the command line', () => {
+    const tempRoot = mkdtempSync(join(tmpdir(), 'bazel-'));
+    const { argv, bazelrc } = bazelBuildCommand('//rs/x:y', { BAZEL_REMOTE_CACHE_URL: 'https://cache.example', BAZEL_REMOTE_CACHE_TOKEN: 's3cret' }, null, tempRoot);
+
+    expect(dirname(dirname(bazelrc!))).toBe(tempRoot);
+    expect(argv).toEqual(['bazel', `--bazelrc=${bazelrc}`, 'build', '--config=stamped', '//rs/x:y']);
+    expect(argv.join(' ')).not.toContain('s3cret');
+    expect(readFileSync(bazelrc!, 'utf-8')).toContain('build "--remote_header=Authorization=Bearer s3cret"');
+    expect(statSync(bazelrc!).mode & 0o777).toBe(0o600);
+    expect(statSync(dirname(bazelrc!)).mode & 0o777).toBe(0o700);
+  });
+
+  it('fails without leaving the token behind when the builder cannot own it', () => {
+    const tempRoot = mkdtempSync(join(tmpdir(), 'bazel-'));
+    expect(() => bazelBuildCommand('//rs/x:y', { BAZEL_REMOTE_CACHE_URL: 'https://cache.example', BAZEL_REMOTE_CACHE_TOKEN: 's3cret' }, 'no-such-builder', tempRoot))
+      .toThrow('Could not hand the remote cache bazelrc to no-such-builder');
+    expect(readdirSync(tempRoot)).toEqual([]);
+  });
+});
+
+describe('runCommand', () => {
+  const options = { cwd: tmpdir(), builder: null };
+
+  it('records the exit code of a shell step', () => {
+    expect(runCommand('full', 'exit 3', options)).toMatchObject({ phase: 'full', command: 'exit 3', user: 'current', exitCode: 3, signal: null });
+    expect(runCommand('full', 'true', options).exitCode).toBe(0);
+  });
+
+  it('passes the build environment and workspace overrides to steps', () => {
+    expect(runCommand('full', '[ "$DOCKER_BUILDKIT" = 0 ]', options).exitCode).toBe(0);
+    expect(runCommand('full', '[ "$TZ" = Pacific/Kiritimati ]', { ...options, env: { TZ: 'Pacific/Kiritimati' } }).exitCode).toBe(0);
+  });
+
+  it('records a command that cannot be started', () => {
+    const run = runCommand('checkout', ['/nonexistent/git', 'clone', 'https://github.com/dfinity/ic'], options);
+    expect(run.exitCode).toBeNull();
+    expect(run.error).toMatch(/ENOENT/);
+  });
+});
+
+describe('createRebuildWorkspace', () => {
+  it('lets a non-root builder enter the workspace parent', () => {
+    const repoDir = createRebuildWorkspace();
+    expect(repoDir).toMatch(/rebuild-[^/]+\/src$/);
+    // Others need search and read permission, since the builder does not own it
+    expect(statSync(dirname(repoDir)).mode & 0o777).toBe(0o755);
+  });
+});
+
+describe('locateArtifact', () => {
+  it('finds the extracted output path after a full build', () => {
+    const repo = mkdtempSync(join(tmpdir(), 'repo-'));
+    mkdirSync(join(repo, 'artifacts/canisters'), { recursive: true });
+    writeFileSync(join(repo, 'artifacts/canisters/migration-canister.wasm.gz'), 'wasm');
+
+    expect(locateArtifact(repo, './artifacts/canisters/migration-canister.wasm.gz', null))
+      .toEqual({ source: 'wasm-output-path', path: 'artifacts/canisters/migration-canister.wasm.gz' });
+    expect(locateArtifact(repo, 'artifacts/canisters/other.wasm.gz', null)).toBeNull();
+  });
+
+  it('prefers the target output after a targeted build, then searches bazel-bin', () => {
+    const repo = mkdtempSync(join(tmpdir(), 'repo-'));
+    mkdirSync(join(repo, 'bazel-bin/rs/nns/governance'), { recursive: true });
+    mkdirSync(join(repo, 'bazel-bin/rs/other'), { recursive: true });
+    writeFileSync(join(repo, 'bazel-bin/rs/nns/governance/governance-canister.wasm.gz'), 'wasm');
+    writeFileSync(join(repo, 'bazel-bin/rs/other/ledger-canister.wasm.gz'), 'wasm');
+
+    expect(locateArtifact(repo, 'artifacts/canisters/governance-canister.wasm.gz', '//rs/nns/governance:governance-canister'))
+      .toEqual({ source: 'bazel-output', path: 'bazel-bin/rs/nns/governance/governance-canister.wasm.gz' });
+    expect(locateArtifact(repo, 'artifacts/canisters/ledger-canister.wasm.gz', '//rs/ledger:ledger-canister'))
+      .toEqual({ source: 'bazel-bin-search', path: 'bazel-bin/rs/other/ledger-canister.wasm.gz' });
+  });
+});
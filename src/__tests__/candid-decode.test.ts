@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCandidArgs } from '../candid-decode.js';
+import { encodeCandidArgs } from '../candid-encode.js';
+
+const DID = `
+type Args = record { allowlist : opt vec principal; mode : variant { fast; slow : nat16 }; "display name" : text };
+service : (Args) -> {};
+`;
+
+describe('decodeCandidArgs', () => {
+  // Fields come out in label hash order, as they are on the wire
+  it('reads back what was encoded, with the field names it is given', () => {
+    const bytes = encodeCandidArgs('(record { allowlist = opt vec { principal "aaaaa-aa" }; mode = variant { slow = 3 }; "display name" = "a \\"b\\"" })', { did: DID });
+    expect(decodeCandidArgs(bytes, ['allowlist', 'mode', 'slow', 'display name'])).toBe(
+      '(record { "display name" = "a \\"b\\""; mode = variant { slow = (3 : nat16) }; allowlist = opt vec { principal "aaaaa-aa" } })',
+    );
+  });
+
+  it('shows the label hash of a field it has no name for', () => {
+    const bytes = encodeCandidArgs('(record { allowlist = null; mode = variant { fast }; "display name" = "" })', { did: DID });
+    expect(decodeCandidArgs(bytes)).toBe('(record { 788359401 = ""; 1214305123 = variant { 1135985308 }; 3352181095 = null })');
+  });
+
+  it('prints text that encodes back to the same bytes', () => {
+    for (const args of ['()', '(null, true, -5)', '(42 : nat, 7 : nat8, 1.5)', '(blob "\\00ab", record { 1; "x" })']) {
+      const bytes = encodeCandidArgs(args);
+      expect(encodeCandidArgs(decodeCandidArgs(bytes))).toEqual(bytes);
+    }
+  });
+
+  it('rejects what is not a complete Candid message', () => {
+    expect(() => decodeCandidArgs(Buffer.from('not candid'))).toThrow(/DIDL magic/);
+    expect(() => decodeCandidArgs(Buffer.from('4449444c00017d', 'hex'))).toThrow(/Unexpected end/);
+    expect(() => decodeCandidArgs(Buffer.from('4449444c00017d0100', 'hex'))).toThrow(/unexpected byte/);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { IDL } from '@dfinity/candid';
+import { candidArgHash, encodeCandidArgs } from '../candid-encode.js';
+import { parseCandidArgs, parseDid } from '../candid-text.js';
+
+// IDL.decode reads the whole backing ArrayBuffer, so hand it a copy rather than a pooled Buffer
+function decode(types: IDL.Type[], bytes: Buffer): unknown[] {
+  return IDL.decode(types, Uint8Array.from(bytes).buffer);
+}
+
+function hex(args: string, options = {}): string {
+  return encodeCandidArgs(args, options).toString('hex');
+}
+
+const DID = `
+// Upgrade arguments of an example canister
+type Network = variant { mainnet; testnet; regtest : record { port : nat16 } };
+type Fees = record { base : nat64; per_byte : opt nat64 };
+type Config = record {
+  network : Network;
+  fees : opt Fees;
+  admins : vec principal;
+  "display name" : text;
+};
+type Tree = variant { leaf : nat; node : record { Tree; Tree } };
+type Amount = nat;
+service : (opt Config) -> {
+  get_config : () -> (Config) query;
+};
+`;
+
+describe('encodeCandidArgs without types', () => {
+  // Encodings as printed by `didc encode '<args>'`
+  it.each([
+    ['()', '4449444c0000'],
+    ['(null)', '4449444c00017f'],
+    ['(true)', '4449444c00017e01'],
+    ['(42)', '4449444c00017c2a'],
+    ['(-1)', '4449444c00017c7f'],
+    ['(42 : nat)', '4449444c00017d2a'],
+    ['(1_000 : nat, 0xff : nat8)', '4449444c00027d7be807ff'],
+    ['("hello")', '4449444c0001710568656c6c6f'],
+    ['(opt (42 : nat))', '4449444c016e7d0100012a'],
+    ['(record { a = (1 : nat) })', '4449444c016c01617d010001'],
+    ['(blob "\\00\\01ab")', '4449444c016d7b01000400016162'],
+    ['(principal "aaaaa-aa")', '4449444c0001680100'],
+  ])('%s', (args, expected) => {
+    expect(hex(args)).toBe(expected);
+  });
+
+  it('reproduces the arg hash of proposal 139995', () => {
+    // didc encode '(record {allowlist = null})' | xxd -r -p | sha256sum
+    expect(candidArgHash('(record {allowlist = null})')).toBe('90e5cf9f52e61d3ecb02fd10382f4d6da8064736d632c7a8c534c189b88ec467');
+    expect(candidArgHash('()')).toBe('0fee102bd16b053022b69f2c65fd5e2f41d150ce9c214ac8731cfaf496ebda4e');
+  });
+
+  it('numbers a type before its components, as didc does', () => {
+    // record at index 0, opt nat at index 1; IDL.encode would put the opt first
+    expect(hex('(record { a = opt (1 : nat) })')).toBe('4449444c026c0161016e7d01000101');
+    const agentJs = Buffer.from(IDL.encode([IDL.Record({ a: IDL.Opt(IDL.Nat) })], [{ a: [1n] }])).toString('hex');
+    expect(agentJs).not.toBe(hex('(record { a = opt (1 : nat) })'));
+  });
+
+  it('keeps quotes inside text values', () => {
+    expect(decode([IDL.Text], encodeCandidArgs(`("it's \\"quoted\\"")`))).toEqual([`it's "quoted"`]);
+  });
+});
+
+describe('encodeCandidArgs with a .did file', () => {
+  const value = `(opt record {
+    network = variant { regtest = record { port = 18443 } };
+    admins = vec { principal "aaaaa-aa" };
+    "display name" = "btc";
+    ignored = 1;
+  })`;
+
+  it('uses the service init arguments and fills in missing opt fields', () => {
+    const bytes = encodeCandidArgs(value, { did: DID });
+    const Network = IDL.Variant({ mainnet: IDL.Null, testnet: IDL.Null, regtest: IDL.Record({ port: IDL.Nat16 }) });
+    const Fees = IDL.Record({ base: IDL.Nat64, per_byte: IDL.Opt(IDL.Nat64) });
+    const Config = IDL.Record({ network: Network, fees: IDL.Opt(Fees), admins: IDL.Vec(IDL.Principal), 'display name': IDL.Text });
+    const [decoded] = decode([IDL.Opt(Config)], bytes) as [[{ network: object; fees: unknown[]; admins: { toText(): string }[] }]];
+    expect(decoded[0].network).toEqual({ regtest: { port: 18443 } });
+    expect(decoded[0].fees).toEqual([]);
+    expect(decoded[0].admins.map(p => p.toText())).toEqual(['aaaaa-aa']);
+  });
+
+  it('encodes the same bytes with an explicit type', () => {
+    expect(hex(value, { did: DID, types: '(opt Config)' })).toBe(hex(value, { did: DID }));
+    // An alias of a primitive type needs no table entry
+    expect(hex('(5)', { did: DID, types: '(Amount)' })).toBe(hex('(5 : nat)'));
+  });
+
+  it('handles recursive types', () => {
+    const bytes = encodeCandidArgs('(variant { node = record { variant { leaf = 1 }; variant { leaf = 2 } } })', { did: DID, types: '(Tree)' });
+    // Tree is entry 0 and refers to itself through the record at entry 1
+    expect(bytes.subarray(0, 5).toString('hex')).toBe('4449444c02');
+    const Tree = IDL.Rec();
+    Tree.fill(IDL.Variant({ leaf: IDL.Nat, node: IDL.Tuple(Tree, Tree) }));
+    expect(decode([Tree], bytes)).toEqual([{ node: [{ leaf: 1n }, { leaf: 2n }] }]);
+  });
+
+  it('rejects values that do not fit the type', () => {
+    expect(() => encodeCandidArgs('(record { base = 1 })', { did: DID, types: '(Fees)' })).not.toThrow();
+    expect(() => encodeCandidArgs('(record { per_byte = opt 1 })', { did: DID, types: '(Fees)' })).toThrow(/missing required field base/);
+    expect(() => encodeCandidArgs('(variant { signet })', { did: DID, types: '(Network)' })).toThrow(/no case signet/);
+    expect(() => encodeCandidArgs('(70000)', { types: '(nat16)' })).toThrow(/out of range for nat16/);
+    expect(() => encodeCandidArgs('(1)', { did: DID, types: '(Missing)' })).toThrow(/Unknown type Missing/);
+    expect(() => encodeCandidArgs('(1, 2)', { types: '(nat)' })).toThrow(/Expected 1 argument/);
+  });
+});
+
+describe('candid-text', () => {
+  it('reports where the syntax breaks', () => {
+    expect(() => parseCandidArgs("(record { a = 1 }')")).toThrow(/Unexpected character/);
+    expect(() => parseCandidArgs('(record { a = 1 )')).toThrow(/syntax error at 16/);
+  });
+
+  it('reads a .did file with comments, quoted labels and a class service', () => {
+    const did = parseDid(DID);
+    expect([...did.types.keys()]).toEqual(['Network', 'Fees', 'Config', 'Tree', 'Amount']);
+    expect(did.initArgs).toEqual([{ kind: 'opt', inner: { kind: 'var', name: 'Config' } }]);
+  });
+});
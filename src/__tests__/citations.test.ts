@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { citeExtraction, findSpan, formatCitationSection, inferredFields } from '../citations.js';
+import { extractBuildStepsByRules } from '../rule-extractor.js';
+import { deserializeFixture } from '../governance-client.js';
+
+function fixtureSummary(): string {
+  const fixture = fileURLToPath(new URL('./fixtures/governance/get_proposal_info/139995.json', import.meta.url));
+  return deserializeFixture(readFileSync(fixture, 'utf-8'))[0].proposal[0].summary;
+}
+
+const FIELDS = {
+  repoUrl: 'https://github.com/dfinity/ic',
+  steps: ['./ci/container/build-ic.sh -c'],
+  wasmOutputPath: 'artifacts/canisters/migration-canister.wasm.gz',
+  upgradeArgs: null,
+  upgradeArgsDid: null,
+  upgradeArgsType: null,
+};
+
+describe('findSpan', () => {
+  it('matches across wrapped lines', () => {
+    const summary = 'Run:\n  docker build \\\n    -t img .\n';
+    const span = findSpan(summary, ['docker build -t img .']);
+    expect(span && summary.slice(span.start, span.end)).toBe('docker build \\\n    -t img .');
+  });
+
+  it('does not match inside a longer name', () => {
+    expect(findSpan('see github.com/dfinity/ic-boundary', ['github.com/dfinity/ic'])).toBeNull();
+    expect(findSpan('out/foo.wasm.gz', ['out/foo.wasm'])).toBeNull();
+    expect(findSpan('Output is out/foo.wasm.', ['out/foo.wasm'])).toEqual({ start: 10, end: 22 });
+  });
+});
+
+describe('citeExtraction', () => {
+  it('quotes every rule-extracted field of proposal 139995', () => {
+    const summary = fixtureSummary();
+    const result = extractBuildStepsByRules(summary);
+    if (!result.ok) throw new Error('rules failed');
+
+    const citations = citeExtraction(summary, result.fields);
+
+    expect(inferredFields(citations)).toEqual([]);
+    expect(citations.steps[0].quote).toBe('./ci/container/build-ic.sh -c');
+    expect(citations.upgradeArgs?.quote).toBe('(record {allowlist = null})');
+    const { start, end } = citations.wasmOutputPath.span!;
+    expect(summary.slice(start, end)).toBe('artifacts/canisters/migration-canister.wasm.gz');
+  });
+
+  it('cites a repository given only as a clone remote', () => {
+    const citations = citeExtraction('git clone git@github.com:dfinity/ic.git', FIELDS);
+    expect(citations.repoUrl.quote).toBe('git@github.com:dfinity/ic.git');
+  });
+
+  it('flags the dfinity/ic default when the summary names no repository', () => {
+    const summary = 'Build with ./ci/container/build-ic.sh -c and check artifacts/canisters/migration-canister.wasm.gz';
+    const citations = citeExtraction(summary, { ...FIELDS, upgradeArgs: '(record {})' });
+
+    expect(inferredFields(citations)).toEqual(['repoUrl', 'upgradeArgs']);
+    expect(citations.repoUrl).toEqual({ value: FIELDS.repoUrl, span: null, quote: null });
+    expect(citations.upgradeArgsDid).toBeNull();
+  });
+});
+
+describe('formatCitationSection', () => {
+  it('lists inferred fields', () => {
+    const section = formatCitationSection(citeExtraction('nothing here', FIELDS), 'llm');
+    expect(section).toContain('### Build Field Sources: ⚠️ 3 INFERRED');
+    expect(section).toContain('were inferred by the LLM: `repoUrl`, `steps[0]`, `wasmOutputPath`');
+    expect(section).toContain('| steps[0] | `./ci/container/build-ic.sh -c` | **inferred** | - |');
+    expect(formatCitationSection(citeExtraction('nothing here', FIELDS), 'rules')).toContain('were inferred by the rule-based extractor:');
+  });
+
+  it('labels unquoted fields from a recipe or override by their source', () => {
+    const recipe = formatCitationSection(citeExtraction('nothing here', FIELDS), 'recipe');
+    expect(recipe).toContain('### Build Field Sources: ⚠️ 3 FROM RECIPE');
+    expect(recipe).toContain('were taken from the build recipe: `repoUrl`');
+    expect(recipe).toContain('| steps[0] | `./ci/container/build-ic.sh -c` | **from recipe** | - |');
+    expect(recipe).not.toContain('inferred');
+
+    const override = formatCitationSection(citeExtraction('nothing here', FIELDS), 'override');
+    expect(override).toContain('### Build Field Sources: ⚠️ 3 FROM OVERRIDE');
+    expect(override).toContain('were set by the manual override: `repoUrl`');
+    expect(override).not.toContain('inferred');
+  });
+});
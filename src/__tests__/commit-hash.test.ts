@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { extractCommitCandidates } from '../commit-hash.js';
+import { deserializeFixture } from '../governance-client.js';
+
+const NEW = '789e5a187985cedc654988f0f337467d6d5b3dcb';
+const OLD = 'fe7d1fddfa516596e0bffcca5eeb086d3810cdee';
+
+describe('extractCommitCandidates', () => {
+  it('returns nothing when no commit is mentioned', () => {
+    expect(extractCommitCandidates('Title', 'No hashes here', '')).toEqual({
+      commitHash: null,
+      candidates: [],
+      ambiguous: false,
+    });
+  });
+
+  it('picks the new commit in a typical DFINITY summary, not the current version', () => {
+    const fixture = fileURLToPath(new URL('./fixtures/governance/get_proposal_info/139995.json', import.meta.url));
+    const proposal = deserializeFixture(readFileSync(fixture, 'utf-8'))[0].proposal[0];
+
+    const result = extractCommitCandidates(proposal.title[0], proposal.summary, proposal.url);
+
+    expect(result.commitHash).toBe(NEW);
+    expect(result.candidates.map(c => c.hash)).toEqual([NEW, OLD]);
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('ranks the end of a compare range above the start', () => {
+    const summary = `Changes: https://github.com/dfinity/ic/compare/${OLD}...${NEW}`;
+
+    const result = extractCommitCandidates('Upgrade', summary, '');
+
+    expect(result.commitHash).toBe(NEW);
+    expect(result.candidates[0].reasons).toContain('end of a compare range');
+  });
+
+  it('prefers a "Git Hash:" label even when another commit appears first', () => {
+    const summary = `Previously deployed ${OLD}.\n\nGit Hash: ${NEW}`;
+
+    expect(extractCommitCandidates('Upgrade', summary, '').commitHash).toBe(NEW);
+  });
+
+  it('marks unlabelled commits as ambiguous', () => {
+    const summary = `See ${OLD} and ${NEW}.`;
+
+    const result = extractCommitCandidates('Upgrade', summary, '');
+
+    expect(result.ambiguous).toBe(true);
+    // Falls back to first appearance, like the original extractor
+    expect(result.commitHash).toBe(OLD);
+  });
+
+  it('normalizes case and counts repeated mentions once per hash', () => {
+    const result = extractCommitCandidates('Upgrade', `${NEW.toUpperCase()} ${NEW}`, '');
+
+    expect(result.candidates).toHaveLength(1);
+    expect(result.candidates[0].occurrences).toBe(2);
+  });
+});
@@ -11,7 +11,7 @@ vi.mock('fs', () => ({
 }));
 
 // Import after mocking
-import { computeSha256, compareHashes } from '../compare-hash.js';
+import { computeSha256, compareHashes, formatInstallModeSection, formatSummaryHashSection } from '../compare-hash.js';
 
 describe('compare-hash', () => {
   beforeEach(() => {
@@ -91,4 +91,62 @@ describe('compare-hash', () => {
       expect(readFileSync).toHaveBeenCalledWith('/path/to/canister.wasm');
     });
   });
+
+  describe('formatInstallModeSection', () => {
+    const proposal = {
+      proposalId: '1',
+      title: 'Upgrade',
+      summary: '',
+      url: '',
+      commitHash: null,
+      expectedWasmHash: null,
+      expectedArgHash: null,
+    };
+
+    it('shows a hard warning for a protocol canister reinstall', () => {
+      const section = formatInstallModeSection({ ...proposal, installMode: 'reinstall', isProtocolCanister: true });
+
+      expect(section).toContain('### Install Mode: 🚨 REINSTALL');
+      expect(section).toContain('**REINSTALL of a protocol canister');
+    });
+
+    it('shows a plain upgrade without warnings', () => {
+      const section = formatInstallModeSection({ ...proposal, installMode: 'upgrade', skipStoppingBeforeInstalling: false });
+
+      expect(section).toContain('### Install Mode: UPGRADE');
+      expect(section).not.toContain('>');
+    });
+
+    it('handles proposal.json written before install modes were recorded', () => {
+      expect(formatInstallModeSection(proposal)).toContain('### Install Mode: UNKNOWN');
+    });
+  });
+
+  describe('formatSummaryHashSection', () => {
+    const proposal = {
+      proposalId: '1',
+      title: 'Upgrade',
+      summary: '',
+      url: '',
+      commitHash: null,
+      expectedWasmHash: 'a'.repeat(64),
+      expectedArgHash: null,
+    };
+
+    it('warns when the summary states a different wasm hash', () => {
+      const stated = { hash: 'b'.repeat(64), kind: 'wasm' as const, reason: 'labeled as the wasm hash', line: '' };
+      const section = formatSummaryHashSection({
+        ...proposal,
+        // Parsed from proposal.json, so not the same objects
+        summaryHashes: { stated: [stated], mismatches: [{ ...stated }], wasmConfirmed: false, argConfirmed: false },
+      });
+
+      expect(section).toContain('⚠️ DIFFER FROM PAYLOAD');
+      expect(section).toContain(`| \`${'b'.repeat(64)}\` | wasm | labeled as the wasm hash | ❌ |`);
+    });
+
+    it('is empty when the summary states no hashes', () => {
+      expect(formatSummaryHashSection(proposal)).toBe('');
+    });
+  });
 });
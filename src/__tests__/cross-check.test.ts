@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Principal } from '@dfinity/principal';
+import { canonicalize, findDisagreements, methodAnnotations, parseHosts, DEFAULT_IC_HOSTS } from '../cross-check.js';
+
+describe('methodAnnotations', () => {
+  it('only annotates query calls', () => {
+    expect(methodAnnotations('query')).toEqual(['query']);
+    expect(methodAnnotations('update')).toEqual([]);
+  });
+});
+
+describe('parseHosts', () => {
+  it('defaults to mainnet when unset or empty', () => {
+    expect(parseHosts(undefined)).toEqual(DEFAULT_IC_HOSTS);
+    expect(parseHosts(' , ')).toEqual(DEFAULT_IC_HOSTS);
+  });
+
+  it('splits, trims and strips trailing slashes', () => {
+    expect(parseHosts('https://ic0.app/, https://icp-api.io')).toEqual(['https://ic0.app', 'https://icp-api.io']);
+  });
+});
+
+describe('canonicalize', () => {
+  it('serializes bigints, byte arrays and principals', () => {
+    const value = {
+      id: 42n,
+      hash: new Uint8Array([0xde, 0xad]),
+      canister: Principal.fromText('rrkah-fqaaa-aaaaa-aaaaq-cai'),
+    };
+
+    expect(canonicalize(value)).toBe('{"id":"42","hash":"dead","canister":{"__principal__":"rrkah-fqaaa-aaaaa-aaaaq-cai"}}');
+  });
+});
+
+describe('findDisagreements', () => {
+  it('returns nothing for a single host', () => {
+    expect(findDisagreements({ a: { title: 'x' } })).toEqual([]);
+  });
+
+  it('returns nothing when all hosts agree', () => {
+    const response = { title: 'Upgrade', action: { hash: new Uint8Array([1, 2]) } };
+    expect(findDisagreements({ a: response, b: { ...response } })).toEqual([]);
+  });
+
+  it('reports each differing field with per-host values', () => {
+    const result = findDisagreements({
+      a: { title: 'Upgrade', action: { hash: new Uint8Array([1]) } },
+      b: { title: 'Upgrade', action: { hash: new Uint8Array([2]) } },
+    });
+
+    expect(result).toEqual([
+      { field: 'action', values: { a: '{"hash":"01"}', b: '{"hash":"02"}' } },
+    ]);
+  });
+});
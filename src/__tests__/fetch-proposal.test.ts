@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import { FixtureGovernanceClient } from '../governance-client.js';
+import { fetchProposalData, findPreviousUpgrade, FetchOptions } from '../fetch-proposal.js';
+import { listProposals } from '../monitor-proposals.js';
+
+const fixturesDir = fileURLToPath(new URL('./fixtures/governance', import.meta.url));
+
+const options = (proposalId: string, hosts: string[] = ['https://ic0.app']): FetchOptions => ({
+  proposalId,
+  clients: Object.fromEntries(hosts.map(h => [h, new FixtureGovernanceClient(fixturesDir)])),
+  governanceCanisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+  network: 'mainnet',
+  sns: false,
+  fetchMethod: 'update',
+});
+
+describe('fetchProposalData (replayed fixtures)', () => {
+  it('extracts hashes and canister from an InstallCode proposal', async () => {
+    const result = await fetchProposalData(options('139995'));
+
+    expect(result.status).toBe('fetched');
+    if (result.status !== 'fetched') return;
+    expect(result.proposalData).toMatchObject({
+      proposalId: '139995',
+      actionType: 'InstallCode',
+      nnsFunction: null,
+      commitHash: '789e5a187985cedc654988f0f337467d6d5b3dcb',
+      expectedWasmHash: 'a7c87d163a0cc69f6a5e4ed11f9a99618bde8658d21e8d84207963bb2400347c',
+      expectedArgHash: '90e5cf9f52e61d3ecb02fd10382f4d6da8064736d632c7a8c534c189b88ec467',
+      summaryHashes: { mismatches: [], wasmConfirmed: false, argConfirmed: false },
+      canisterId: 'sbzkb-zqaaa-aaaaa-aaaiq-cai',
+      installMode: 'upgrade',
+      skipStoppingBeforeInstalling: false,
+      isProtocolCanister: true,
+      fetchMethod: 'update',
+      hosts: ['https://ic0.app'],
+    });
+    // The summary states the upgrade arguments, so there is nothing to recover
+    expect(result.proposalData.previousUpgrade).toBeNull();
+  });
+
+  it('looks up the previous upgrade only when the summary states no arguments', async () => {
+    const client = new FixtureGovernanceClient(fixturesDir);
+    const listed: string[] = [];
+    const listProposals = client.listProposals.bind(client);
+    client.listProposals = async request => {
+      listed.push(String(request.before_proposal[0]?.id));
+      return listProposals(request);
+    };
+
+    const stated = await fetchProposalData({ ...options('139995'), clients: { 'https://ic0.app': client } });
+    expect(stated.status === 'fetched' && stated.proposalData.previousUpgrade).toBeNull();
+    expect(listed).toEqual([]);
+
+    const unstated = await fetchProposalData({ ...options('139996'), clients: { 'https://ic0.app': client } });
+    expect(unstated.status === 'fetched' && unstated.proposalData.previousUpgrade?.proposalId).toBe('139870');
+    expect(listed).toEqual(['139996']);
+  });
+
+  it('skips proposals that do not install code', async () => {
+    const result = await fetchProposalData(options('140000'));
+
+    expect(result).toEqual({
+      status: 'skipped',
+      title: 'Update settings of the ledger canister',
+      skipReason: 'UpdateCanisterSettings',
+    });
+  });
+
+  it('returns null expectedWasmHash when the InstallCode action has none', async () => {
+    const result = await fetchProposalData(options('140001'));
+
+    expect(result.status).toBe('fetched');
+    if (result.status !== 'fetched') return;
+    expect(result.proposalData.expectedWasmHash).toBeNull();
+    expect(result.proposalData.expectedArgHash).toBeNull();
+  });
+
+  it('agrees across hosts that return the same data', async () => {
+    const result = await fetchProposalData(options('139995', ['https://ic0.app', 'https://icp-api.io']));
+    expect(result.status).toBe('fetched');
+  });
+
+  it('throws when no fixture was recorded', async () => {
+    await expect(fetchProposalData(options('1'))).rejects.toThrow(/No recorded fixture/);
+  });
+});
+
+describe('findPreviousUpgrade (replayed fixtures)', () => {
+  it('finds the last executed upgrade of the same canister and the arguments it stated', async () => {
+    const previous = await findPreviousUpgrade(new FixtureGovernanceClient(fixturesDir), 'sbzkb-zqaaa-aaaaa-aaaiq-cai', '139995');
+
+    // 139985 upgraded the same canister but failed, 139990 upgraded another one
+    expect(previous).toEqual({
+      proposalId: '139870',
+      title: 'Upgrade the Migration Canister to Commit fe7d1fd',
+      argHash: '4e648d955538cb0759d769f15e127c7d176030ba91393d59a949c886c5e16032',
+      upgradeArgs: '(record {allowlist = opt vec {principal "aaaaa-aa"}})',
+      upgradeArgsDid: null,
+      upgradeArgsType: null,
+    });
+  });
+
+  it('pages further back, and gives up when the proposals run out', async () => {
+    // The first page has no upgrade of the ledger; the next one is empty
+    expect(await findPreviousUpgrade(new FixtureGovernanceClient(fixturesDir), 'ryjl3-tyaaa-aaaaa-aaaba-cai', '139995')).toBeNull();
+  });
+});
+
+describe('listProposals (replayed fixtures)', () => {
+  it('maps list_proposals responses to ProposalInfo', async () => {
+    const proposals = await listProposals(new FixtureGovernanceClient(fixturesDir), 100);
+
+    expect(proposals.map(p => p.id)).toEqual([140001n, 140000n, 139995n]);
+    expect(proposals[2]).toEqual({
+      id: 139995n,
+      topic: 17,
+      status: 1,
+      proposer: 49n,
+      title: 'Upgrade the Migration Canister to Commit 789e5a1',
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { installModeFromCode, installModeFromVariant, installModeWarnings } from '../install-mode.js';
+
+describe('installModeFromCode', () => {
+  it('maps governance enum values to names', () => {
+    expect(installModeFromCode(1)).toBe('install');
+    expect(installModeFromCode(2)).toBe('reinstall');
+    expect(installModeFromCode(3)).toBe('upgrade');
+    expect(installModeFromCode(0)).toBe('unspecified');
+    expect(installModeFromCode(42)).toBe('unspecified');
+    expect(installModeFromCode(undefined)).toBeNull();
+  });
+});
+
+describe('installModeFromVariant', () => {
+  it('maps Candid variants to names', () => {
+    expect(installModeFromVariant({ reinstall: null })).toBe('reinstall');
+    expect(installModeFromVariant(null)).toBeNull();
+  });
+});
+
+describe('installModeWarnings', () => {
+  it('is critical for a protocol canister reinstall', () => {
+    const warnings = installModeWarnings('reinstall', false, true);
+    expect(warnings.map(w => w.severity)).toEqual(['critical']);
+  });
+
+  it('is only a warning for a non-protocol reinstall', () => {
+    const warnings = installModeWarnings('reinstall', false, false);
+    expect(warnings.map(w => w.severity)).toEqual(['warning']);
+  });
+
+  it('warns when stopping is skipped', () => {
+    const warnings = installModeWarnings('upgrade', true, true);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toMatch(/NOT stopped/);
+  });
+
+  it('has nothing to say about a plain upgrade or a proposal that installs nothing', () => {
+    expect(installModeWarnings('upgrade', false, true)).toEqual([]);
+    expect(installModeWarnings(null, null, true)).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachingLlmProvider, LlmCacheContext, LlmCacheMissError, llmCacheKey } from '../llm-cache.js';
+import { LlmProvider } from '../llm-provider.js';
+
+const CONTEXT: LlmCacheContext = {
+  promptTemplate: 'Extract build steps:',
+  title: 'Upgrade the Migration Canister to Commit 789e5a1',
+  summary: '...',
+  url: '',
+};
+
+function countingProvider(name = 'gemini:gemini-2.0-flash'): LlmProvider & { calls: number } {
+  const provider = {
+    name,
+    calls: 0,
+    generate: async () => `response ${++provider.calls}`,
+  };
+  return provider;
+}
+
+describe('llmCacheKey', () => {
+  it('changes with the template, model and proposal text', () => {
+    const key = llmCacheKey(CONTEXT, 'gemini:gemini-2.0-flash', 'prompt');
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(llmCacheKey(CONTEXT, 'gemini:gemini-2.0-flash', 'prompt')).toBe(key);
+    expect(llmCacheKey({ ...CONTEXT, promptTemplate: 'v2' }, 'gemini:gemini-2.0-flash', 'prompt')).not.toBe(key);
+    expect(llmCacheKey(CONTEXT, 'openai:gpt-4o-mini', 'prompt')).not.toBe(key);
+    expect(llmCacheKey({ ...CONTEXT, summary: 'edited' }, 'gemini:gemini-2.0-flash', 'prompt')).not.toBe(key);
+  });
+});
+
+describe('CachingLlmProvider', () => {
+  it('records the raw response and serves it on the next run', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'llm-cache-'));
+    const inner = countingProvider();
+
+    const first = new CachingLlmProvider(inner, dir, CONTEXT, false);
+    expect(await first.generate('prompt')).toBe('response 1');
+    expect(first.uses).toEqual([{ provider: inner.name, key: expect.any(String), hit: false }]);
+
+    const [file] = readdirSync(dir);
+    const entry = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+    expect(entry).toMatchObject({ provider: inner.name, prompt: 'prompt', response: 'response 1', proposal: { title: CONTEXT.title } });
+
+    const second = new CachingLlmProvider(inner, dir, CONTEXT, false);
+    expect(await second.generate('prompt')).toBe('response 1');
+    expect(second.uses[0].hit).toBe(true);
+    expect(inner.calls).toBe(1);
+  });
+
+  it('refuses to call the provider in replay mode', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'llm-cache-'));
+    const inner = countingProvider();
+    const replay = new CachingLlmProvider(inner, dir, CONTEXT, true);
+
+    await expect(replay.generate('prompt')).rejects.toBeInstanceOf(LlmCacheMissError);
+    expect(inner.calls).toBe(0);
+  });
+});
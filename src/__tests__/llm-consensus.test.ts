@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { collectExtractions, reachConsensus } from '../llm-consensus.js';
+import { LlmProvider } from '../llm-provider.js';
+import { ExtractedBuildFields } from '../rule-extractor.js';
+
+const FIELDS: ExtractedBuildFields = {
+  repoUrl: 'https://github.com/dfinity/ic',
+  steps: ['./ci/container/build-ic.sh -c'],
+  wasmOutputPath: 'artifacts/canisters/migration-canister.wasm.gz',
+  upgradeArgs: '(record {allowlist = null})',
+  upgradeArgsDid: null,
+  upgradeArgsType: null,
+};
+
+function provider(name: string, response: string | Error): LlmProvider {
+  return {
+    name,
+    generate: async () => {
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    },
+  };
+}
+
+describe('collectExtractions', () => {
+  it('records failures without stopping the other providers', async () => {
+    const extractions = await collectExtractions(
+      [provider('a', JSON.stringify(FIELDS)), provider('b', new Error('HTTP 500'))],
+      async p => JSON.parse(await p.generate('prompt'))
+    );
+    expect(extractions).toEqual([
+      { provider: 'a', fields: FIELDS, error: null },
+      { provider: 'b', fields: null, error: 'HTTP 500' },
+    ]);
+  });
+});
+
+describe('reachConsensus', () => {
+  it('accepts a quorum despite formatting differences and reports the outvoted provider', () => {
+    const result = reachConsensus([
+      { provider: 'a', fields: FIELDS, error: null },
+      { provider: 'b', fields: { ...FIELDS, wasmOutputPath: `./${FIELDS.wasmOutputPath}` }, error: null },
+      { provider: 'c', fields: { ...FIELDS, steps: ['bazel build //...'] }, error: null },
+    ], 2);
+
+    expect(result).toMatchObject({ status: 'agreed', fields: FIELDS, agreeing: ['a', 'b'], dissenting: ['c'], failed: [] });
+  });
+
+  it('lists the differing fields when no quorum is reached', () => {
+    const result = reachConsensus([
+      { provider: 'a', fields: FIELDS, error: null },
+      { provider: 'b', fields: { ...FIELDS, upgradeArgs: null }, error: null },
+      { provider: 'c', fields: null, error: 'timeout' },
+    ], 2);
+
+    expect(result.status).toBe('disagreement');
+    if (result.status === 'disagreement') {
+      expect(result.disagreements).toEqual([
+        { field: 'upgradeArgs', values: { a: '"(record {allowlist = null})"', b: 'null' } },
+      ]);
+      expect(result.failed.map(f => f.provider)).toEqual(['c']);
+    }
+  });
+});
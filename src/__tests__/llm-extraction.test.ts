@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILD_STEPS_SCHEMA,
+  DEFAULT_MAX_ATTEMPTS,
+  LlmExtractionError,
+  extractWithRetries,
+  isBalancedCandid,
+  resolveMaxAttempts,
+  validateExtractedFields,
+} from '../llm-extraction.js';
+import { JsonSchema, LlmProvider, toGeminiSchema } from '../llm-provider.js';
+
+const VALID = {
+  repoUrl: 'https://github.com/dfinity/ic',
+  steps: ['./ci/container/build-ic.sh -c'],
+  wasmOutputPath: 'artifacts/canisters/migration-canister.wasm.gz',
+  upgradeArgs: '(record {allowlist = null})',
+  upgradeArgsDid: null,
+  upgradeArgsType: null,
+};
+
+// Answers with each response in turn and records the prompts it was sent
+function scriptedProvider(responses: string[]): LlmProvider & { prompts: string[]; schemas: (JsonSchema | undefined)[] } {
+  const prompts: string[] = [];
+  const schemas: (JsonSchema | undefined)[] = [];
+  return {
+    name: 'scripted',
+    prompts,
+    schemas,
+    generate: async (prompt, schema) => {
+      prompts.push(prompt);
+      schemas.push(schema);
+      return responses[prompts.length - 1];
+    },
+  };
+}
+
+describe('isBalancedCandid', () => {
+  it('checks brackets outside string literals', () => {
+    expect(isBalancedCandid('(record {allowlist = opt vec {principal "aaaaa-aa"}})')).toBe(true);
+    expect(isBalancedCandid('(record {name = ")"})')).toBe(true);
+    expect(isBalancedCandid('(record {allowlist = null}')).toBe(false);
+    expect(isBalancedCandid('(record {allowlist = null)}')).toBe(false);
+  });
+});
+
+describe('validateExtractedFields', () => {
+  it('accepts a valid answer', () => {
+    expect(validateExtractedFields(VALID)).toEqual({ fields: VALID, errors: [] });
+  });
+
+  it('reports every invalid field', () => {
+    const { fields, errors } = validateExtractedFields({
+      repoUrl: 'https://github.com/org/repo',
+      steps: ['git checkout abc', 'cd ic && ./build.sh'],
+      upgradeArgs: '(record {allowlist = null}',
+      upgradeArgsDid: '/etc/candid.did',
+      upgradeArgsType: null,
+    });
+    expect(fields).toBeNull();
+    expect(errors).toEqual([
+      'repoUrl "https://github.com/org/repo" is the example placeholder, not the proposal\'s repository',
+      'steps[0] "git checkout abc" runs git; the verifier checks out the commit itself',
+      'wasmOutputPath must be a string',
+      'upgradeArgs "(record {allowlist = null}" is not a balanced Candid value like (record {...})',
+      'upgradeArgsDid "/etc/candid.did" must be a relative path to a .did file',
+    ]);
+  });
+
+  it('no longer defaults a missing output path and rejects non-WASM paths', () => {
+    expect(validateExtractedFields({ ...VALID, wasmOutputPath: '../canister.wasm' }).errors).toEqual([
+      'wasmOutputPath "../canister.wasm" must be a relative path ending in .wasm or .wasm.gz',
+    ]);
+    expect(validateExtractedFields({ ...VALID, wasmOutputPath: 'out/canister.tar' }).fields).toBeNull();
+  });
+});
+
+describe('extractWithRetries', () => {
+  it('passes the schema to the provider and returns the first valid answer', async () => {
+    const provider = scriptedProvider(['```json\n' + JSON.stringify(VALID) + '\n```']);
+    expect(await extractWithRetries(provider, 'PROMPT')).toEqual(VALID);
+    expect(provider.schemas).toEqual([BUILD_STEPS_SCHEMA]);
+  });
+
+  it('re-prompts with the validation errors', async () => {
+    const provider = scriptedProvider([
+      'not json',
+      JSON.stringify({ ...VALID, wasmOutputPath: '/tmp/x.wasm' }),
+      JSON.stringify(VALID),
+    ]);
+    expect(await extractWithRetries(provider, 'PROMPT')).toEqual(VALID);
+    expect(provider.prompts).toHaveLength(3);
+    expect(provider.prompts[1]).toContain('- response is not valid JSON');
+    expect(provider.prompts[2]).toContain('- wasmOutputPath "/tmp/x.wasm" must be a relative path ending in .wasm or .wasm.gz');
+  });
+
+  it('gives up with a typed error after maxAttempts', async () => {
+    const provider = scriptedProvider([JSON.stringify({ ...VALID, steps: [] }), JSON.stringify({ ...VALID, steps: [] })]);
+    const error = await extractWithRetries(provider, 'PROMPT', 2).catch(err => err);
+    expect(error).toBeInstanceOf(LlmExtractionError);
+    expect(error).toMatchObject({ provider: 'scripted', attempts: 2, errors: ['steps must be a non-empty array of commands'] });
+  });
+});
+
+describe('resolveMaxAttempts', () => {
+  it('defaults to DEFAULT_MAX_ATTEMPTS', () => {
+    expect(resolveMaxAttempts(undefined)).toBe(DEFAULT_MAX_ATTEMPTS);
+    expect(resolveMaxAttempts('')).toBe(DEFAULT_MAX_ATTEMPTS);
+  });
+
+  it('accepts a positive integer and rejects anything else', () => {
+    expect(resolveMaxAttempts('5')).toBe(5);
+    for (const value of ['0', '-1', '2.5', 'three', 'Infinity']) {
+      expect(() => resolveMaxAttempts(value)).toThrow(`LLM_MAX_ATTEMPTS must be a positive integer, got "${value}"`);
+    }
+  });
+});
+
+describe('toGeminiSchema', () => {
+  it('maps nullable JSON Schema types to Gemini schema types', () => {
+    const schema = toGeminiSchema(BUILD_STEPS_SCHEMA);
+    expect(schema.type).toBe('OBJECT');
+    expect(schema.properties!.steps).toMatchObject({ type: 'ARRAY', items: { type: 'STRING' } });
+    expect(schema.properties!.upgradeArgs).toMatchObject({ type: 'STRING', nullable: true });
+    expect(schema.propertyOrdering).toEqual(BUILD_STEPS_SCHEMA.required);
+  });
+});
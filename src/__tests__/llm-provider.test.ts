@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileProvider, createLlmProviders, resolveQuorum } from '../llm-provider.js';
+
+describe('createLlmProviders', () => {
+  it('builds one provider per kind:model entry', () => {
+    const providers = createLlmProviders('gemini:gemini-2.0-flash, openai:gpt-4o-mini,ollama:llama3.1:8b,file:response.json', {});
+    expect(providers.map(p => p.name)).toEqual([
+      'gemini:gemini-2.0-flash',
+      'openai:gpt-4o-mini',
+      'ollama:llama3.1:8b',
+      'file:response.json',
+    ]);
+  });
+
+  it('rejects unknown kinds and entries without a model', () => {
+    expect(() => createLlmProviders('claude', {})).toThrow('expected kind:model');
+    expect(() => createLlmProviders('bard:v1', {})).toThrow('Unknown LLM provider kind "bard"');
+    expect(() => createLlmProviders(' , ', {})).toThrow('No LLM providers configured');
+  });
+
+  it('requires GEMINI_API_KEY only when a Gemini provider is called', async () => {
+    const [gemini] = createLlmProviders('gemini:gemini-2.0-flash', {});
+    await expect(gemini.generate('prompt')).rejects.toThrow('GEMINI_API_KEY');
+  });
+});
+
+describe('FileProvider', () => {
+  it('answers with the saved response', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'llm-')), 'response.json');
+    writeFileSync(path, '{"steps": []}');
+    expect(await new FileProvider(path).generate()).toBe('{"steps": []}');
+  });
+});
+
+describe('resolveQuorum', () => {
+  it('defaults to a strict majority', () => {
+    expect(resolveQuorum(1, undefined)).toBe(1);
+    expect(resolveQuorum(2, undefined)).toBe(2);
+    expect(resolveQuorum(3, undefined)).toBe(2);
+  });
+
+  it('accepts an explicit quorum within range', () => {
+    expect(resolveQuorum(3, '3')).toBe(3);
+    expect(() => resolveQuorum(3, '4')).toThrow('LLM_QUORUM');
+    expect(() => resolveQuorum(3, 'two')).toThrow('LLM_QUORUM');
+  });
+});
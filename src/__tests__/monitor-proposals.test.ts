@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { filterNewProposals, ProposalInfo } from '../monitor-proposals.js';
+import { filterNewProposals, filterExecutedProposals, ProposalInfo, PROPOSAL_STATUS_EXECUTED, TRACKED_TOPICS } from '../monitor-proposals.js';
 
 describe('filterNewProposals', () => {
   const createProposal = (id: number, topic: number): ProposalInfo => ({
@@ -71,6 +71,18 @@ describe('filterNewProposals', () => {
     expect(result.map(p => Number(p.id))).toEqual([140001, 140002]);
   });
 
+  it('tracks AddSnsWasm proposals under Service Nervous System Management', () => {
+    const proposals = [
+      createProposal(140001, 17), // InstallCode - tracked
+      createProposal(140002, 18), // AddSnsWasm - tracked
+      createProposal(140003, 14), // SnsAndCommunityFund - not tracked
+    ];
+
+    const result = filterNewProposals(proposals, TRACKED_TOPICS, [], defaultMinId);
+
+    expect(result.map(p => Number(p.id))).toEqual([140001, 140002]);
+  });
+
   it('returns empty when no proposals match criteria', () => {
     const proposals = [
       createProposal(140001, 5),  // wrong topic
@@ -116,3 +128,26 @@ describe('filterNewProposals', () => {
     expect(result).toHaveLength(0);
   });
 });
+
+describe('filterExecutedProposals', () => {
+  const createProposal = (id: number, status: number): ProposalInfo => ({
+    id: BigInt(id),
+    topic: 17,
+    status,
+    proposer: BigInt(1),
+    title: `Proposal ${id}`,
+  });
+
+  it('returns only executed proposals without a deployment check', () => {
+    const proposals = [
+      createProposal(140001, 1),                        // Open
+      createProposal(140002, PROPOSAL_STATUS_EXECUTED),
+      createProposal(140003, PROPOSAL_STATUS_EXECUTED), // Already checked
+      createProposal(140004, 5),                        // Failed
+    ];
+
+    const result = filterExecutedProposals(proposals, [17], ['140003'], 139900n);
+
+    expect(result.map(p => Number(p.id))).toEqual([140002]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { isMainnetHost, parseNetworkArgs, resolveNetworkConfig } from '../network-config.js';
+
+function writeConfig(networks: object): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'networks-')), 'networks.json');
+  writeFileSync(path, JSON.stringify(networks));
+  return path;
+}
+
+describe('resolveNetworkConfig', () => {
+  it('defaults to mainnet without fetching the root key', () => {
+    const config = resolveNetworkConfig({}, {});
+
+    expect(config).toEqual({
+      name: 'mainnet',
+      hosts: ['https://ic0.app'],
+      nnsGovernanceCanisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+      fetchRootKey: false,
+    });
+  });
+
+  it('reads named networks from the config file', () => {
+    const configPath = writeConfig({
+      testnet: { hosts: ['https://testnet.example'], nnsGovernanceCanisterId: 'aaaaa-aa' },
+    });
+
+    const config = resolveNetworkConfig({ network: 'testnet', configPath }, {});
+
+    expect(config.hosts).toEqual(['https://testnet.example']);
+    expect(config.nnsGovernanceCanisterId).toBe('aaaaa-aa');
+    // Non-mainnet hosts fetch the root key unless the file says otherwise
+    expect(config.fetchRootKey).toBe(true);
+  });
+
+  it('lets the CLI override the environment', () => {
+    const config = resolveNetworkConfig(
+      { hosts: ['http://127.0.0.1:8080'] },
+      { IC_HOSTS: 'http://127.0.0.1:4943', NNS_GOVERNANCE_CANISTER_ID: 'aaaaa-aa' }
+    );
+
+    expect(config.hosts).toEqual(['http://127.0.0.1:8080']);
+    expect(config.nnsGovernanceCanisterId).toBe('aaaaa-aa');
+  });
+
+  it('rejects unknown networks', () => {
+    expect(() => resolveNetworkConfig({ network: 'nope' }, {})).toThrow(/Unknown network "nope"/);
+  });
+
+  it('rejects a missing explicit config file', () => {
+    expect(() => resolveNetworkConfig({ configPath: '/does/not/exist.json' }, {})).toThrow(/not found/);
+  });
+});
+
+describe('parseNetworkArgs', () => {
+  it('consumes network flags and returns the rest', () => {
+    const { overrides, rest } = parseNetworkArgs(['139995', '--network', 'local', '--hosts', 'http://a,http://b', '--query']);
+
+    expect(overrides).toEqual({ network: 'local', hosts: ['http://a', 'http://b'] });
+    expect(rest).toEqual(['139995', '--query']);
+  });
+});
+
+describe('isMainnetHost', () => {
+  it('recognizes mainnet API domains', () => {
+    expect(isMainnetHost('https://ic0.app')).toBe(true);
+    expect(isMainnetHost('https://icp-api.io/')).toBe(true);
+    expect(isMainnetHost('http://127.0.0.1:4943')).toBe(false);
+  });
+});
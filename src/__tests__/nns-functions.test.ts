@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { IDL } from '@dfinity/candid';
+import { Principal } from '@dfinity/principal';
+import { createHash } from 'crypto';
+import {
+  decodeNnsFunctionPayload,
+  isSupportedNnsFunction,
+  nnsFunctionName,
+  NNS_FUNCTION_ADD_SNS_WASM,
+  NNS_FUNCTION_NNS_CANISTER_UPGRADE,
+  NNS_FUNCTION_NNS_ROOT_UPGRADE,
+  NNS_ROOT_CANISTER_ID,
+  SNS_WASM_CANISTER_ID,
+} from '../nns-functions.js';
+
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+const arg = new Uint8Array([0x44, 0x49, 0x44, 0x4c, 0x00, 0x00]);
+
+describe('decodeNnsFunctionPayload', () => {
+  it('decodes NnsCanisterUpgrade (including fields we do not declare)', () => {
+    const payload = IDL.encode(
+      [IDL.Record({
+        stop_before_installing: IDL.Bool,
+        mode: IDL.Variant({ install: IDL.Null, reinstall: IDL.Null, upgrade: IDL.Null }),
+        canister_id: IDL.Principal,
+        wasm_module: IDL.Vec(IDL.Nat8),
+        arg: IDL.Vec(IDL.Nat8),
+        compute_allocation: IDL.Opt(IDL.Nat),
+        memory_allocation: IDL.Opt(IDL.Nat),
+      })],
+      [{
+        stop_before_installing: true,
+        mode: { upgrade: null },
+        canister_id: Principal.fromText('rrkah-fqaaa-aaaaa-aaaaq-cai'),
+        wasm_module: wasm,
+        arg,
+        compute_allocation: [],
+        memory_allocation: [],
+      }]
+    );
+
+    const decoded = decodeNnsFunctionPayload(NNS_FUNCTION_NNS_CANISTER_UPGRADE, new Uint8Array(payload));
+
+    expect(decoded).toEqual({
+      nnsFunction: NNS_FUNCTION_NNS_CANISTER_UPGRADE,
+      nnsFunctionName: 'NnsCanisterUpgrade',
+      canisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+      wasmHash: sha256(wasm),
+      argHash: sha256(arg),
+      declaredWasmHash: null,
+      installMode: 'upgrade',
+      skipStoppingBeforeInstalling: false,
+    });
+  });
+
+  it('decodes NnsRootUpgrade targeting the root canister', () => {
+    const payload = IDL.encode(
+      [IDL.Record({
+        wasm_module: IDL.Vec(IDL.Nat8),
+        module_arg: IDL.Vec(IDL.Nat8),
+        stop_upgrade_start: IDL.Bool,
+      })],
+      [{ wasm_module: wasm, module_arg: new Uint8Array(), stop_upgrade_start: true }]
+    );
+
+    const decoded = decodeNnsFunctionPayload(NNS_FUNCTION_NNS_ROOT_UPGRADE, new Uint8Array(payload));
+
+    expect(decoded?.canisterId).toBe(NNS_ROOT_CANISTER_ID);
+    expect(decoded?.wasmHash).toBe(sha256(wasm));
+    expect(decoded?.argHash).toBeNull();
+  });
+
+  it('decodes AddSnsWasm and reports the declared hash', () => {
+    const payload = IDL.encode(
+      [IDL.Record({
+        hash: IDL.Vec(IDL.Nat8),
+        wasm: IDL.Opt(IDL.Record({
+          wasm: IDL.Vec(IDL.Nat8),
+          proposal_id: IDL.Opt(IDL.Nat64),
+          canister_type: IDL.Int32,
+        })),
+      })],
+      [{
+        hash: createHash('sha256').update(wasm).digest(),
+        wasm: [{ wasm, proposal_id: [], canister_type: 2 }],
+      }]
+    );
+
+    const decoded = decodeNnsFunctionPayload(NNS_FUNCTION_ADD_SNS_WASM, new Uint8Array(payload));
+
+    expect(decoded?.canisterId).toBe(SNS_WASM_CANISTER_ID);
+    expect(decoded?.wasmHash).toBe(sha256(wasm));
+    expect(decoded?.declaredWasmHash).toBe(sha256(wasm));
+  });
+
+  it('returns null for NNS functions that ship no code', () => {
+    expect(decodeNnsFunctionPayload(1, new Uint8Array())).toBeNull();
+  });
+});
+
+describe('nnsFunctionName', () => {
+  it('names known functions and flags unknown ones', () => {
+    expect(nnsFunctionName(NNS_FUNCTION_ADD_SNS_WASM)).toBe('AddSnsWasm');
+    expect(nnsFunctionName(999)).toBe('Unknown(999)');
+    expect(isSupportedNnsFunction(NNS_FUNCTION_ADD_SNS_WASM)).toBe(true);
+    expect(isSupportedNnsFunction(1)).toBe(false);
+  });
+});
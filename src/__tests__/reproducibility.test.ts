@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RebuildSummary, classifyReproducibility, compareBuilds } from '../reproducibility.js';
+
+const A = 'a'.repeat(64);
+const B = 'b'.repeat(64);
+
+function summary(sha256: string | null): RebuildSummary {
+  return {
+    repoDir: '/tmp/x',
+    user: 'builder',
+    env: {},
+    startedAt: '2026-01-01T00:00:00Z',
+    finishedAt: null,
+    success: sha256 !== null,
+    error: sha256 ? null : 'failed',
+    sha256,
+  };
+}
+
+describe('classifyReproducibility', () => {
+  it('tells a wrong proposal from a nondeterministic build', () => {
+    expect(classifyReproducibility(A, A, A.toUpperCase())).toBe('verified');
+    expect(classifyReproducibility(A, B, B)).toBe('reproducible-mismatch');
+    expect(classifyReproducibility(null, B, B)).toBe('reproducible-mismatch');
+    expect(classifyReproducibility(A, A, B)).toBe('nondeterministic-build');
+    expect(classifyReproducibility(A, A, null)).toBe('build-failed');
+  });
+});
+
+describe('compareBuilds', () => {
+  it('lists the differing sections of a nondeterministic build', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'reproducibility-'));
+    const header = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+    writeFileSync(join(dir, 'a.wasm'), Buffer.from([...header, 0x05, 0x01, 0x00]));
+    writeFileSync(join(dir, 'b.wasm'), Buffer.from([...header, 0x05, 0x01, 0x01]));
+
+    const report = compareBuilds(A, [summary(A), summary(B)], [join(dir, 'a.wasm'), join(dir, 'b.wasm')]);
+
+    expect(report.verdict).toBe('nondeterministic-build');
+    expect(report.sectionDifferences.map(d => d.name)).toEqual(['memory']);
+  });
+
+  it('records why sections could not be compared', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'reproducibility-'));
+    writeFileSync(join(dir, 'a.wasm'), 'x');
+    writeFileSync(join(dir, 'b.wasm'), 'y');
+
+    const report = compareBuilds(A, [summary(A), summary(B)], [join(dir, 'a.wasm'), join(dir, 'b.wasm')]);
+    expect(report.sectionDiffError).toMatch(/Not a WebAssembly module/);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { compareExtractions, extractBuildStepsByRules, splitShellWords } from '../rule-extractor.js';
+import { deserializeFixture } from '../governance-client.js';
+
+function fixtureSummary(): string {
+  const fixture = fileURLToPath(new URL('./fixtures/governance/get_proposal_info/139995.json', import.meta.url));
+  return deserializeFixture(readFileSync(fixture, 'utf-8'))[0].proposal[0].summary;
+}
+
+describe('splitShellWords', () => {
+  it('honours quotes and stops at a pipe', () => {
+    expect(splitShellWords(`didc encode -t '(canister_arg)' "(record {a = \\"x\\"})" | xxd -r -p`))
+      .toEqual(['didc', 'encode', '-t', '(canister_arg)', '(record {a = "x"})']);
+  });
+});
+
+describe('extractBuildStepsByRules', () => {
+  it('parses the Verification section of a typical DFINITY proposal', () => {
+    expect(extractBuildStepsByRules(fixtureSummary())).toEqual({
+      ok: true,
+      fields: {
+        repoUrl: 'https://github.com/dfinity/ic',
+        steps: ['./ci/container/build-ic.sh -c'],
+        wasmOutputPath: 'artifacts/canisters/migration-canister.wasm.gz',
+        upgradeArgs: '(record {allowlist = null})',
+        upgradeArgsDid: null,
+        upgradeArgsType: null,
+      },
+    });
+  });
+
+  it('extracts didc -d/-t arguments and joins continued lines', () => {
+    const summary = [
+      'See https://github.com/dfinity/dogecoin-canister/commit/0123456789abcdef0123456789abcdef01234567',
+      '```bash',
+      'docker build \\',
+      '  -t dogecoin .',
+      './scripts/docker-build',
+      'sha256sum ./dogecoin.wasm.gz',
+      '```',
+      '```',
+      "didc encode -d canister/candid.did -t '(init_config)' '(record {network = opt variant {mainnet}})' | xxd -r -p | sha256sum",
+      '```',
+    ].join('\n');
+
+    expect(extractBuildStepsByRules(summary)).toEqual({
+      ok: true,
+      fields: {
+        repoUrl: 'https://github.com/dfinity/dogecoin-canister',
+        steps: ['docker build -t dogecoin .', './scripts/docker-build'],
+        wasmOutputPath: 'dogecoin.wasm.gz',
+        upgradeArgs: '(record {network = opt variant {mainnet}})',
+        upgradeArgsDid: 'canister/candid.did',
+        upgradeArgsType: '(init_config)',
+      },
+    });
+  });
+
+  it('fails instead of guessing when there is no WASM fingerprint block', () => {
+    const result = extractBuildStepsByRules('Build it with `make` and check the hash.');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.reasons).toContain('no code block runs sha256sum on a .wasm or .wasm.gz file');
+    }
+  });
+});
+
+describe('compareExtractions', () => {
+  it('ignores formatting differences and reports real disagreements', () => {
+    const rules = {
+      repoUrl: 'https://github.com/dfinity/ic',
+      steps: ['./ci/container/build-ic.sh -c'],
+      wasmOutputPath: 'artifacts/canisters/migration-canister.wasm.gz',
+      upgradeArgs: '(record {allowlist = null})',
+      upgradeArgsDid: null,
+      upgradeArgsType: null,
+    };
+    const llm = {
+      ...rules,
+      repoUrl: 'https://github.com/dfinity/ic.git',
+      wasmOutputPath: './artifacts/canisters/migration-canister.wasm.gz',
+      upgradeArgs: null,
+    };
+
+    const disagreements = compareExtractions(rules, llm).filter(a => !a.agree);
+    expect(disagreements).toEqual([
+      { field: 'upgradeArgs', agree: false, rules: '(record {allowlist = null})', llm: null },
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Principal } from '@dfinity/principal';
+import { createHash } from 'crypto';
+import { extractSnsUpgradeHashes } from '../sns-governance.js';
+
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+describe('extractSnsUpgradeHashes', () => {
+  const canisterId = Principal.fromText('ryjl3-tyaaa-aaaaa-aaaba-cai');
+
+  it('hashes an embedded WASM and upgrade arg', () => {
+    const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d]);
+    const arg = new Uint8Array([0x44, 0x49, 0x44, 0x4c, 0x00, 0x00]);
+
+    const result = extractSnsUpgradeHashes({
+      new_canister_wasm: wasm,
+      mode: [],
+      canister_id: [canisterId],
+      chunked_canister_wasm: [],
+      canister_upgrade_arg: [arg],
+    });
+
+    expect(result).toEqual({
+      canisterId: 'ryjl3-tyaaa-aaaaa-aaaba-cai',
+      wasmHash: sha256(wasm),
+      argHash: sha256(arg),
+      chunked: false,
+      installMode: 'upgrade',
+    });
+  });
+
+  it('uses wasm_module_hash for chunked uploads', () => {
+    const moduleHash = new Uint8Array(32).fill(0xab);
+
+    const result = extractSnsUpgradeHashes({
+      new_canister_wasm: new Uint8Array(),
+      mode: [],
+      canister_id: [canisterId],
+      chunked_canister_wasm: [{ wasm_module_hash: moduleHash, store_canister_id: [], chunk_hashes_list: [] }],
+      canister_upgrade_arg: [],
+    });
+
+    expect(result.wasmHash).toBe('ab'.repeat(32));
+    expect(result.argHash).toBeNull();
+    expect(result.chunked).toBe(true);
+  });
+});
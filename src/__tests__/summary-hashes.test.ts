@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { checkStatedHashes, extractStatedHashes } from '../summary-hashes.js';
+import { deserializeFixture } from '../governance-client.js';
+
+const WASM = 'a7c87d163a0cc69f6a5e4ed11f9a99618bde8658d21e8d84207963bb2400347c';
+const ARG = '90e5cf9f52e61d3ecb02fd10382f4d6da8064736d632c7a8c534c189b88ec467';
+const OTHER = 'baf5ecae2c260caa3705832a1dc280c31968b5eaf9e300377ca521f8e0e11787';
+
+describe('extractStatedHashes', () => {
+  it('reads the current wasm hash in a typical DFINITY summary as the previous version', () => {
+    const fixture = fileURLToPath(new URL('./fixtures/governance/get_proposal_info/139995.json', import.meta.url));
+    const summary = deserializeFixture(readFileSync(fixture, 'utf-8'))[0].proposal[0].summary;
+
+    expect(extractStatedHashes(summary)).toEqual([{
+      hash: OTHER,
+      kind: 'previous',
+      reason: 'labeled as the current/previous version',
+      line: `__Current wasm hash__: ${OTHER}`,
+    }]);
+  });
+
+  it('labels sha256sum output and didc encode output', () => {
+    const summary = [
+      '```',
+      'sha256sum ./artifacts/canisters/governance-canister.wasm.gz',
+      '```',
+      '```',
+      `${WASM}  ./artifacts/canisters/governance-canister.wasm.gz`,
+      '```',
+      '```',
+      "didc encode '(record {})' | xxd -r -p | sha256sum",
+      '```',
+      '```',
+      `${ARG}  -`,
+      '```',
+    ].join('\n');
+
+    expect(extractStatedHashes(summary).map(s => [s.hash, s.kind])).toEqual([[WASM, 'wasm'], [ARG, 'arg']]);
+  });
+
+  it('uses a label on the line above a bare hash', () => {
+    const summary = `Expected wasm module hash:\n\n\`${WASM}\``;
+    expect(extractStatedHashes(summary)[0]).toMatchObject({ kind: 'wasm', reason: 'labeled as the wasm hash on the line above' });
+  });
+});
+
+describe('checkStatedHashes', () => {
+  it('confirms stated hashes that match the payload', () => {
+    const check = checkStatedHashes(`New wasm hash: ${WASM}\nArg hash: ${ARG}`, WASM, ARG);
+    expect(check).toMatchObject({ mismatches: [], wasmConfirmed: true, argConfirmed: true });
+  });
+
+  it('flags a stated wasm hash that differs from the payload', () => {
+    const check = checkStatedHashes(`Wasm hash: ${OTHER}`, WASM, null);
+    expect(check.mismatches.map(m => m.hash)).toEqual([OTHER]);
+    expect(check.wasmConfirmed).toBe(false);
+  });
+
+  it('flags an arg hash stated for a proposal that has none', () => {
+    expect(checkStatedHashes(`Upgrade args hash: ${ARG}`, WASM, null).mismatches).toHaveLength(1);
+  });
+
+  it('treats an unlabeled hash equal to the payload as confirming it and ignores others', () => {
+    const check = checkStatedHashes(`See ${WASM} and ${OTHER}`, WASM, null);
+    expect(check.stated.map(s => s.kind)).toEqual(['wasm', 'unlabeled']);
+    expect(check.mismatches).toEqual([]);
+    expect(check.wasmConfirmed).toBe(true);
+  });
+});
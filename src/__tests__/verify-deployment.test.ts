@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { classifyDeployment, isDeploymentCheckable } from '../verify-deployment.js';
+
+const hash = '9a8a90c6bbfd1c4a411f8347ffba5a0b3b33441e20809701916fa93bca186251';
+
+describe('classifyDeployment', () => {
+  it('verifies a matching module hash regardless of case', () => {
+    expect(classifyDeployment(hash, hash.toUpperCase())).toBe('verified');
+  });
+
+  it('flags a different installed module', () => {
+    expect(classifyDeployment(hash, 'a'.repeat(64))).toBe('mismatch');
+  });
+
+  it('flags a canister with no module installed', () => {
+    expect(classifyDeployment(hash, null)).toBe('not_installed');
+  });
+
+  it('is not applicable without an expected hash', () => {
+    expect(classifyDeployment(null, hash)).toBe('not_applicable');
+  });
+});
+
+describe('isDeploymentCheckable', () => {
+  const base = {
+    proposalId: '1',
+    title: 'Upgrade',
+    actionType: 'InstallCode',
+    nnsFunction: null,
+    expectedWasmHash: hash,
+    canisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+  };
+
+  it('checks InstallCode proposals with a target canister', () => {
+    expect(isDeploymentCheckable(base)).toBe(true);
+  });
+
+  it('skips proposals without a target canister', () => {
+    expect(isDeploymentCheckable({ ...base, canisterId: null })).toBe(false);
+  });
+
+  it('skips AddSnsWasm, which stores rather than installs the WASM', () => {
+    expect(isDeploymentCheckable({ ...base, actionType: 'ExecuteNnsFunction', nnsFunction: 30 })).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import { diffAgainstReference, formatWasmDiffSection, resolveReferenceWasm } from '../wasm-diff.js';
+
+const HEADER = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+
+function section(id: number, payload: number[]): number[] {
+  return [id, payload.length, ...payload];
+}
+
+function custom(name: string, content: string): number[] {
+  return section(0, [name.length, ...Buffer.from(name), ...Buffer.from(content)]);
+}
+
+// (type (func)) and a code section holding one body of the given instructions
+function module(body: number[], commit: string): Buffer {
+  const code = [body.length + 1, 0x00, ...body];
+  return Buffer.from([
+    ...HEADER,
+    ...section(1, [0x01, 0x60, 0x00, 0x00]),
+    ...section(3, [0x01, 0x00]),
+    ...section(10, [0x01, ...code]),
+    ...custom('icp:public git_commit_id', commit),
+  ]);
+}
+
+const reference = { path: 'reference/canister.wasm', source: 'artifact' as const };
+
+describe('resolveReferenceWasm', () => {
+  it('prefers the command line, then the environment, then a previous artifact', () => {
+    expect(resolveReferenceWasm(['--reference', 'a.wasm'], { REFERENCE_WASM: 'b.wasm' })).toEqual({ path: 'a.wasm', source: 'cli' });
+    expect(resolveReferenceWasm([], { REFERENCE_WASM: 'b.wasm' })).toEqual({ path: 'b.wasm', source: 'env' });
+    expect(resolveReferenceWasm([], {}, 'src/__tests__/wasm-diff.test.ts')).toEqual({ path: 'src/__tests__/wasm-diff.test.ts', source: 'artifact' });
+    expect(resolveReferenceWasm([], {}, 'does/not/exist.wasm')).toBeNull();
+  });
+});
+
+describe('diffAgainstReference', () => {
+  it('recognises the same module in a different gzip wrapper', () => {
+    const raw = module([0x0b], 'abc');
+    const diff = diffAgainstReference(gzipSync(raw), raw, reference, null);
+    expect(diff.identicalModules).toBe(true);
+    expect(diff.differences).toEqual([]);
+    expect(diff.moduleSizeDelta).toBe(0);
+  });
+
+  it('tells a metadata-only difference from a code difference', () => {
+    const metadataOnly = diffAgainstReference(module([0x0b], 'abcd'), module([0x0b], 'abc'), reference, null);
+    expect(metadataOnly.onlyCustomSections).toBe(true);
+    expect(metadataOnly.differences.map(d => d.name)).toEqual(['custom:icp:public git_commit_id']);
+    expect(metadataOnly.moduleSizeDelta).toBe(1);
+
+    const codeChange = diffAgainstReference(module([0x01, 0x0b], 'abc'), module([0x0b], 'abc'), reference, null);
+    expect(codeChange.onlyCustomSections).toBe(false);
+    expect(codeChange.differences.map(d => d.name)).toEqual(['code']);
+  });
+
+  it('notes when the reference is the module the proposal expects', () => {
+    const expected = module([0x0b], 'abc');
+    const expectedHash = createHash('sha256').update(expected).digest('hex');
+    expect(diffAgainstReference(module([0x01, 0x0b], 'abc'), expected, reference, expectedHash.toUpperCase()).referenceMatchesExpected).toBe(true);
+  });
+});
+
+describe('formatWasmDiffSection', () => {
+  it('lists differing sections with their size change', () => {
+    const section = formatWasmDiffSection(diffAgainstReference(module([0x01, 0x0b], 'abcd'), module([0x0b], 'abc'), reference, null));
+    expect(section).toContain('❌ CODE OR DATA DIFFERS');
+    expect(section).toContain('| `code` | 4 | 5 | +1 bytes |');
+    expect(section).toContain('| Module size change | +2 bytes |');
+  });
+});
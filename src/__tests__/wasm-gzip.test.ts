@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import { classifyHashMismatch, diffGzipHeaders, parseGzipHeader } from '../wasm-gzip.js';
+
+const MODULE = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0x01, 0x04, 0x01, 0x60, 0x00, 0x00]);
+const OTHER_MODULE = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+
+function sha256(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+// What `gzip` writes for a named file: FNAME set, an mtime and the Unix OS byte
+function gzipWithName(bytes: Buffer, name: string, mtime: number): Buffer {
+  const plain = gzipSync(bytes);
+  const header = Buffer.from([0x1f, 0x8b, 0x08, 0x08, 0, 0, 0, 0, 0x02, 0x03]);
+  header.writeUInt32LE(mtime, 4);
+  return Buffer.concat([header, Buffer.from(`${name}\0`, 'latin1'), plain.subarray(10)]);
+}
+
+describe('parseGzipHeader', () => {
+  it('reads the header fields', () => {
+    expect(parseGzipHeader(gzipWithName(MODULE, 'canister.wasm', 1700000000))).toEqual({
+      flags: ['FNAME'],
+      mtime: 1700000000,
+      extraFlags: 2,
+      os: 3,
+      osName: 'Unix',
+      fileName: 'canister.wasm',
+      comment: null,
+    });
+  });
+
+  it('returns null for uncompressed modules', () => {
+    expect(parseGzipHeader(MODULE)).toBeNull();
+  });
+});
+
+describe('diffGzipHeaders', () => {
+  it('lists only the fields that differ', () => {
+    const diff = diffGzipHeaders(parseGzipHeader(gzipWithName(MODULE, 'a.wasm', 1)), parseGzipHeader(gzipSync(MODULE)));
+    expect(diff.map(d => d.field)).toEqual(['flags', 'mtime', 'extraFlags', 'fileName']);
+  });
+
+  it('reports when only one side is compressed', () => {
+    expect(diffGzipHeaders(null, parseGzipHeader(gzipSync(MODULE)))).toEqual([{ field: 'compressed', built: 'no', reference: 'yes' }]);
+  });
+});
+
+describe('classifyHashMismatch', () => {
+  it('sees the same module through different gzip wrappers', () => {
+    const reference = gzipSync(MODULE);
+    const result = classifyHashMismatch(gzipWithName(MODULE, 'canister.wasm', 1700000000), sha256(reference), reference);
+    expect(result.verdict).toBe('same-wasm-different-gzip');
+    expect(result.reason).toContain('the expected artifact');
+    expect(result.headerDifferences.map(d => d.field)).toContain('mtime');
+  });
+
+  it('reports a different module', () => {
+    const reference = gzipSync(OTHER_MODULE);
+    expect(classifyHashMismatch(gzipSync(MODULE), 'f'.repeat(64), reference)).toMatchObject({ verdict: 'different-wasm', reason: expect.stringContaining('the reference') });
+  });
+
+  it('notices an expected hash of the decompressed module', () => {
+    expect(classifyHashMismatch(gzipSync(MODULE), sha256(MODULE), null).verdict).toBe('same-wasm-different-gzip');
+  });
+
+  it('recompresses the built module when there is no reference', () => {
+    const expected = sha256(gzipSync(MODULE, { level: 1 }));
+    const result = classifyHashMismatch(gzipWithName(MODULE, 'canister.wasm', 1), expected, null);
+    expect(result.verdict).toBe('same-wasm-different-gzip');
+    expect(result.reason).toMatch(/gzip level \d/);
+    expect(classifyHashMismatch(gzipSync(MODULE), 'f'.repeat(64), null).verdict).toBe('undetermined');
+  });
+});
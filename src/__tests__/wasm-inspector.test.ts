@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync } from 'zlib';
+import { canisterMethods, checkEmbeddedCommit, formatWasmInspectionSection, inspectWasm } from '../wasm-inspector.js';
+
+const HEADER = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+const COMMIT = '789e5a18c2d1f93c9bd9a04a16a0d22e7d5b2f1c';
+
+function section(id: number, payload: number[]): number[] {
+  return [id, payload.length, ...payload];
+}
+
+function name(value: string): number[] {
+  return [value.length, ...Buffer.from(value)];
+}
+
+function custom(sectionName: string, content: string): number[] {
+  return section(0, [...name(sectionName), ...Buffer.from(content)]);
+}
+
+// Three exported functions and a memory, plus metadata sections
+function canisterModule(commit: string | null): Buffer {
+  const exports = [
+    [...name('canister_update transfer'), 0x00, 0x00],
+    [...name('canister_query balance'), 0x00, 0x01],
+    [...name('canister_post_upgrade'), 0x00, 0x02],
+    [...name('memory'), 0x02, 0x00],
+  ];
+  return Buffer.from([
+    ...HEADER,
+    ...section(7, [exports.length, ...exports.flat()]),
+    ...(commit ? custom('icp:public git_commit_id', `${commit}\n`) : []),
+    ...custom('icp:private candid:service', 'service : {\n  balance : () -> (nat) query;\n}'),
+    ...custom('name', 'not metadata'),
+  ]);
+}
+
+describe('inspectWasm', () => {
+  it('reads exports and metadata sections', () => {
+    const inspection = inspectWasm(canisterModule(COMMIT));
+    expect(inspection.gzipped).toBe(false);
+    expect(inspection.exports.map(e => [e.name, e.kind])).toEqual([
+      ['canister_update transfer', 'func'],
+      ['canister_query balance', 'func'],
+      ['canister_post_upgrade', 'func'],
+      ['memory', 'memory'],
+    ]);
+    expect(inspection.metadata.map(m => [m.visibility, m.name])).toEqual([
+      ['public', 'git_commit_id'],
+      ['private', 'candid:service'],
+    ]);
+    expect(inspection.metadata[0].value).toBe(`${COMMIT}\n`);
+  });
+
+  it('hashes the decompressed module of a gzipped artifact', () => {
+    const raw = inspectWasm(canisterModule(COMMIT));
+    const gzipped = inspectWasm(gzipSync(canisterModule(COMMIT)));
+    expect(gzipped.gzipped).toBe(true);
+    expect(gzipped.moduleSha256).toBe(raw.moduleSha256);
+    expect(gzipped.sections).toEqual(raw.sections);
+  });
+
+  it('groups canister entry points', () => {
+    expect(canisterMethods(inspectWasm(canisterModule(COMMIT)))).toEqual({
+      update: ['transfer'],
+      query: ['balance'],
+      lifecycle: ['canister_post_upgrade'],
+    });
+  });
+});
+
+describe('checkEmbeddedCommit', () => {
+  it('compares the embedded commit with the proposal commit', () => {
+    const inspection = inspectWasm(canisterModule(COMMIT));
+    expect(checkEmbeddedCommit(inspection, COMMIT.toUpperCase()).status).toBe('match');
+    expect(checkEmbeddedCommit(inspection, 'a'.repeat(40))).toEqual({ status: 'mismatch', embedded: COMMIT, expected: 'a'.repeat(40) });
+    expect(checkEmbeddedCommit(inspection, null).status).toBe('no-commit');
+  });
+
+  it('reports modules without a git_commit_id', () => {
+    expect(checkEmbeddedCommit(inspectWasm(canisterModule(null)), COMMIT).status).toBe('missing');
+  });
+});
+
+describe('formatWasmInspectionSection', () => {
+  it('flags a mismatching commit and only inlines short metadata', () => {
+    const inspection = inspectWasm(canisterModule(COMMIT));
+    const section = formatWasmInspectionSection(inspection, checkEmbeddedCommit(inspection, 'a'.repeat(40)));
+    expect(section).toContain('❌ DIFFERS FROM PROPOSAL COMMIT');
+    expect(section).toContain(`| \`git_commit_id\` | public | 41 | \`${COMMIT}\` |`);
+    expect(section).toMatch(/\| `candid:service` \| private \| \d+ \| - \|/);
+    expect(section).toContain('1 update, 1 query, 1 lifecycle');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync } from 'zlib';
+import { diffWasmSections, parseWasmSections } from '../wasm-sections.js';
+
+const HEADER = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+
+function section(id: number, payload: number[]): number[] {
+  return [id, payload.length, ...payload];
+}
+
+function custom(name: string, payload: number[]): number[] {
+  return section(0, [name.length, ...Buffer.from(name), ...payload]);
+}
+
+// (type (func)) plus a custom section
+function module(customPayload: number[], extra: number[] = []): Buffer {
+  return Buffer.from([...HEADER, ...section(1, [0x01, 0x60, 0x00, 0x00]), ...custom('icp:public git_commit_id', customPayload), ...extra]);
+}
+
+describe('parseWasmSections', () => {
+  it('lists sections with custom sections by name', () => {
+    const sections = parseWasmSections(module([0x61]));
+    expect(sections.map(s => [s.id, s.name, s.size])).toEqual([
+      [1, 'type', 4],
+      [0, 'custom:icp:public git_commit_id', 26],
+    ]);
+  });
+
+  it('reads gzipped modules', () => {
+    expect(parseWasmSections(gzipSync(module([0x61])))).toEqual(parseWasmSections(module([0x61])));
+  });
+
+  it('rejects input that is not WebAssembly', () => {
+    expect(() => parseWasmSections(Buffer.from('not wasm at all'))).toThrow(/Not a WebAssembly module/);
+    expect(() => parseWasmSections(Buffer.from([...HEADER, 0x01, 0x10, 0x00]))).toThrow(/runs past the end/);
+  });
+});
+
+describe('diffWasmSections', () => {
+  it('is empty for identical modules', () => {
+    expect(diffWasmSections(module([0x61]), gzipSync(module([0x61])))).toEqual([]);
+  });
+
+  it('names the sections that differ or exist on one side only', () => {
+    const diff = diffWasmSections(module([0x61]), module([0x62], section(5, [0x00])));
+    expect(diff.map(d => d.name)).toEqual(['custom:icp:public git_commit_id', 'memory']);
+    expect(diff[1].a).toBeNull();
+    expect(diff[1].b?.size).toBe(1);
+  });
+});
@@ -0,0 +1,322 @@
+import { existsSync, readdirSync, readFileSync, realpathSync } from 'fs';
+import { createHash } from 'crypto';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+import { decodeCandidArgs } from './candid-decode.js';
+import { encodeCandidArgs } from './candid-encode.js';
+import { parseCandidArgs, parseDid } from './candid-text.js';
+import { UpgradeArgsFields, extractUpgradeArgsByRules, findCodeBlocks } from './rule-extractor.js';
+
+// Build output and dependency trees, which hold no argument files of the proposal's own
+const SKIPPED_DIRS = new Set(['.git', 'node_modules', 'target', 'artifacts', '.dfx']);
+
+// init_args.did, upgrade-arg.candid, args.txt, ...
+const ARG_FILE = /(^|[_.-])args?([_.-].*)?\.(did|candid|txt)$|\.args$/i;
+const RELEASE_NOTES = /^(unreleased_)?(changelog|release[-_]?notes).*\.md$/i;
+
+// Enough for a canister directory's worth of files; a repo-wide grab bag beyond that only adds noise
+const MAX_REPO_CANDIDATES = 50;
+
+/**
+ * Ranked best first:
+ * - empty: `()` and `(null)`, what most upgrades without arguments send
+ * - repo: argument files and release notes in the checkout at the proposal's commit
+ * - previous-proposal: the arguments of the canister's last executed upgrade
+ */
+export type ArgCandidateSource = 'empty' | 'repo' | 'previous-proposal';
+
+export interface ArgCandidate {
+  source: ArgCandidateSource;
+  // Where the value was found, e.g. a path in the checkout or a proposal ID
+  origin: string;
+  args: string;
+  // Types to encode with, as didc encode -d / -t; the .did path is relative to the checkout
+  didFile: string | null;
+  types: string | null;
+}
+
+// The parts of the previous upgrade proposal (see fetch-proposal.ts) recovery uses
+export interface PreviousArgs extends UpgradeArgsFields {
+  proposalId: string;
+  argHash: string | null;
+}
+
+export interface Typing {
+  didFile: string | null;
+  types: string | null;
+}
+
+export interface CandidateResult {
+  candidate: ArgCandidate;
+  // The encoding that reproduces the arg hash, or else the first one that could be made
+  typing: Typing | null;
+  argHash: string | null;
+  // The encoded bytes as textual Candid
+  decoded: string | null;
+  // The first encoding that failed, e.g. a missing .did file, even if a later one worked
+  error: string | null;
+  match: boolean;
+}
+
+export interface ArgRecovery {
+  expectedArgHash: string;
+  results: CandidateResult[];
+  // The best ranked candidate that reproduces the arg hash
+  match: CandidateResult | null;
+  // Set when the previous upgrade has the same arg hash, so sent the same bytes, stated or not
+  sameAsPrevious: string | null;
+}
+
+function sha256(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function parses(args: string): boolean {
+  try {
+    parseCandidArgs(args);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '..' && !rel.startsWith('../') && !isAbsolute(rel);
+}
+
+/**
+ * Read a .did file named by the build steps or found in the repository. The
+ * path comes from the proposal or the LLM, so it is resolved inside the
+ * checkout only, never against the verifier's own working directory.
+ */
+export function readDidFromCheckout(repoDir: string, didFile: string): string {
+  if (!existsSync(repoDir)) {
+    throw new Error(`No checkout at ${repoDir} to read ${didFile} from`);
+  }
+  const root = realpathSync(repoDir);
+  const path = resolve(root, didFile);
+  if (isAbsolute(didFile) || !isInside(root, path)) {
+    throw new Error(`.did file ${didFile} is outside the checkout`);
+  }
+  if (!existsSync(path)) {
+    throw new Error(`.did file ${didFile} not found in the checkout`);
+  }
+  // A symlink in the checkout may still point out of it
+  const real = realpathSync(path);
+  if (!isInside(root, real)) {
+    throw new Error(`.did file ${didFile} links outside the checkout`);
+  }
+  return readFileSync(real, 'utf-8');
+}
+
+function listFiles(repoDir: string, relative: string, files: string[]) {
+  for (const entry of readdirSync(join(repoDir, relative), { withFileTypes: true })) {
+    const path = relative ? join(relative, entry.name) : entry.name;
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name) && !entry.name.startsWith('bazel-')) {
+        listFiles(repoDir, path, files);
+      }
+    } else if (entry.isFile() && (ARG_FILE.test(entry.name) || RELEASE_NOTES.test(entry.name))) {
+      files.push(path);
+    }
+  }
+}
+
+// A service .did next to an argument file, which is what the arguments are usually typed by
+function serviceDidNextTo(repoDir: string, path: string): string | null {
+  const dir = dirname(path);
+  for (const name of readdirSync(join(repoDir, dir)).sort()) {
+    if (!name.endsWith('.did') || ARG_FILE.test(name)) continue;
+    const didFile = dir === '.' ? name : join(dir, name);
+    try {
+      if (parseDid(readFileSync(join(repoDir, didFile), 'utf-8')).initArgs) {
+        return didFile;
+      }
+    } catch {
+      // Not a .did file we can read; the arguments are still tried with their own types
+    }
+  }
+  return null;
+}
+
+// Candid values in release notes: a didc encode command, or any candid block
+function releaseNoteArgs(markdown: string): UpgradeArgsFields[] {
+  const stated = extractUpgradeArgsByRules(markdown);
+  const blocks = findCodeBlocks(markdown)
+    .filter(b => b.lang === 'candid')
+    .map(b => ({ upgradeArgs: b.body.trim(), upgradeArgsDid: null, upgradeArgsType: null }));
+  // The stated arguments may be one of the candid blocks already
+  const separate = stated.upgradeArgs && !blocks.some(b => b.upgradeArgs === stated.upgradeArgs);
+  return separate ? [stated, ...blocks] : blocks;
+}
+
+/**
+ * Argument files and release-note arguments in the checkout, sorted by path.
+ * Only values that parse as Candid are kept.
+ */
+export function findRepoCandidates(repoDir: string): ArgCandidate[] {
+  if (!existsSync(repoDir)) {
+    return [];
+  }
+  const files: string[] = [];
+  listFiles(repoDir, '', files);
+
+  const candidates: ArgCandidate[] = [];
+  for (const path of files.sort()) {
+    const content = readFileSync(join(repoDir, path), 'utf-8');
+    if (RELEASE_NOTES.test(basename(path))) {
+      for (const args of releaseNoteArgs(content)) {
+        if (args.upgradeArgs && parses(args.upgradeArgs)) {
+          candidates.push({ source: 'repo', origin: path, args: args.upgradeArgs, didFile: args.upgradeArgsDid, types: args.upgradeArgsType });
+        }
+      }
+    } else if (parses(content)) {
+      candidates.push({ source: 'repo', origin: path, args: content.trim(), didFile: serviceDidNextTo(repoDir, path), types: null });
+    }
+  }
+  return candidates.slice(0, MAX_REPO_CANDIDATES);
+}
+
+/** Every candidate, best ranked first, without repeats of the same value and types. */
+export function collectArgCandidates(repoDir: string, previous: PreviousArgs | null): ArgCandidate[] {
+  const candidates: ArgCandidate[] = [
+    { source: 'empty', origin: 'no arguments', args: '()', didFile: null, types: null },
+    { source: 'empty', origin: 'a single null', args: '(null)', didFile: null, types: null },
+    ...findRepoCandidates(repoDir),
+  ];
+  if (previous?.upgradeArgs) {
+    candidates.push({
+      source: 'previous-proposal',
+      origin: `proposal ${previous.proposalId}`,
+      args: previous.upgradeArgs,
+      didFile: previous.upgradeArgsDid,
+      types: previous.upgradeArgsType,
+    });
+  }
+
+  const seen = new Set<string>();
+  return candidates.filter(c => {
+    const key = JSON.stringify([c.args.replace(/\s+/g, ' '), c.didFile, c.types]);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Names that may label the record fields and variant cases of a value, for showing it decoded
+export function labelNames(...sources: (string | null)[]): string[] {
+  return sources.flatMap(source => source?.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []);
+}
+
+/**
+ * Try the candidate's own types, then the shared typings (e.g. the .did file the
+ * build steps name), then the value's own types, until one reproduces the hash.
+ */
+function tryCandidate(candidate: ArgCandidate, typings: Typing[], expected: string, repoDir: string): CandidateResult {
+  const own = candidate.didFile || candidate.types ? [{ didFile: candidate.didFile, types: candidate.types }] : [];
+  const untyped: Typing = { didFile: null, types: null };
+  let first: CandidateResult | null = null;
+  let error: string | null = null;
+
+  for (const typing of [...own, ...typings, untyped]) {
+    try {
+      const did = typing.didFile ? readDidFromCheckout(repoDir, typing.didFile) : null;
+      const bytes = encodeCandidArgs(candidate.args, { did, types: typing.types });
+      const argHash = sha256(bytes);
+      const result = {
+        candidate,
+        typing: typing.didFile || typing.types ? typing : null,
+        argHash,
+        decoded: decodeCandidArgs(bytes, labelNames(candidate.args, did)),
+        error,
+        match: argHash === expected,
+      };
+      if (result.match) {
+        return result;
+      }
+      first ??= result;
+    } catch (err) {
+      error ??= err instanceof Error ? err.message : String(err);
+    }
+  }
+  return first ?? { candidate, typing: null, argHash: null, decoded: null, error, match: false };
+}
+
+/**
+ * When the summary states no upgrade arguments, look for arguments that
+ * reproduce the on-chain arg hash. Every candidate is tried and reported;
+ * the best ranked one that matches is the recovered value.
+ */
+export function recoverUpgradeArgs(
+  expectedArgHash: string,
+  candidates: ArgCandidate[],
+  typings: Typing[],
+  repoDir: string,
+  previous: PreviousArgs | null = null,
+): ArgRecovery {
+  const expected = expectedArgHash.toLowerCase();
+  const results = candidates.map(c => tryCandidate(c, typings, expected, repoDir));
+  return {
+    expectedArgHash: expected,
+    results,
+    match: results.find(r => r.match) ?? null,
+    sameAsPrevious: previous?.argHash?.toLowerCase() === expected ? previous.proposalId : null,
+  };
+}
+
+function describeTyping(typing: Typing | null): string {
+  if (!typing) return 'untyped (didc defaults)';
+  return [typing.didFile, typing.types].filter(Boolean).join(' ');
+}
+
+// Keep Candid text from breaking out of a markdown table cell
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/`/g, "'");
+}
+
+export function formatArgRecoverySection(recovery: ArgRecovery): string {
+  const { match } = recovery;
+  let section = `### Upgrade Args Recovery: ${match ? '⚠️ RECOVERED' : '❌ NO CANDIDATE MATCHES'}
+
+> The summary states no upgrade arguments. ${recovery.results.length} candidate(s) were encoded and hashed; ${match
+    ? `the ${match.candidate.source} candidate from ${match.candidate.origin} reproduces the on-chain arg hash`
+    : 'none reproduces the on-chain arg hash'}.
+`;
+
+  if (match) {
+    section += `
+**Decoded arguments:** \`${cell(match.decoded!)}\`
+`;
+  }
+  if (recovery.sameAsPrevious) {
+    section += `
+The previous upgrade, proposal ${recovery.sameAsPrevious}, has the same arg hash, so it sent the same arguments.
+`;
+  }
+
+  section += `
+| # | Source | From | Decoded value | Encoded with | SHA-256 |
+|---|--------|------|---------------|--------------|---------|
+${recovery.results.map((r, i) => `| ${i + 1} | ${r.candidate.source} | ${cell(r.candidate.origin)} | ${r.decoded ? `\`${cell(r.decoded)}\`` : '-'} | ${cell(describeTyping(r.typing))}${r.argHash && r.error ? ` (typed encoding failed: ${cell(r.error)})` : ''} | ${r.argHash ? `\`${r.argHash}\`${r.match ? ' ✅' : ''}` : `error: ${cell(r.error ?? 'unknown')}`} |`).join('\n')}
+`;
+
+  return section;
+}
+
+export function printArgRecovery(recovery: ArgRecovery) {
+  recovery.results.forEach((r, i) => {
+    const outcome = r.match ? '✅' : r.argHash ? '  ' : '❗';
+    console.log(`${outcome} ${String(i + 1).padStart(2)}. ${r.candidate.source} (${r.candidate.origin}): ${r.decoded ?? r.error}`);
+    if (r.decoded && r.error) {
+      console.log(`       typed encoding failed: ${r.error}`);
+    }
+  });
+  if (recovery.sameAsPrevious) {
+    console.log(`The previous upgrade, proposal ${recovery.sameAsPrevious}, has the same arg hash.`);
+  }
+  console.log(recovery.match
+    ? `Recovered: ${recovery.match.decoded} (${recovery.match.candidate.origin}, encoded with ${describeTyping(recovery.match.typing)})`
+    : 'No candidate reproduces the on-chain arg hash');
+}
@@ -0,0 +1,94 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { createHash } from 'crypto';
+import { dirname, join } from 'path';
+
+// Where builds leave their artifacts: the IC's artifacts/, Bazel's bazel-bin/, Cargo's target/ and dfx's .dfx/
+export const DEFAULT_SWEEP_ROOTS = ['artifacts', 'bazel-bin', 'target', '.dfx'];
+
+const WASM_FILE = /\.wasm(\.gz)?$/;
+
+export interface SweptArtifact {
+  // Relative to the repository checkout
+  path: string;
+  sha256: string;
+  sizeBytes: number;
+}
+
+export interface ArtifactSweep {
+  roots: string[];
+  artifacts: SweptArtifact[];
+  // The first artifact whose hash is the expected one
+  match: SweptArtifact | null;
+}
+
+// A correct artifact found somewhere other than where the extracted build steps said
+export interface PathCorrection {
+  // The artifact the build steps pointed at, or null if there was none
+  extracted: string | null;
+  actual: string;
+  extractionError: string;
+}
+
+// The roots to sweep, plus the directory the extracted output path points into
+export function sweepRoots(wasmOutputPath: string): string[] {
+  const extractedDir = dirname(wasmOutputPath.replace(/^\.\//, ''));
+  const covered = extractedDir === '.' || DEFAULT_SWEEP_ROOTS.some(root => extractedDir === root || extractedDir.startsWith(`${root}/`));
+  return covered
+    ? DEFAULT_SWEEP_ROOTS
+    : [...DEFAULT_SWEEP_ROOTS, extractedDir];
+}
+
+// Symlinked directories are followed only at the root (bazel-bin itself is one), so runfiles trees can't loop
+function listWasmFiles(repoDir: string, relative: string, files: string[]) {
+  for (const entry of readdirSync(join(repoDir, relative), { withFileTypes: true })) {
+    const path = join(relative, entry.name);
+    if (entry.isDirectory()) {
+      listWasmFiles(repoDir, path, files);
+    } else if (WASM_FILE.test(entry.name) && (entry.isFile() || (entry.isSymbolicLink() && existsSync(join(repoDir, path)) && statSync(join(repoDir, path)).isFile()))) {
+      files.push(path);
+    }
+  }
+}
+
+/**
+ * Hash every .wasm / .wasm.gz under the build output roots and note which one,
+ * if any, has the expected hash. Catches artifacts that were built correctly
+ * but sit at a different path than the one extracted from the proposal.
+ */
+export function sweepArtifacts(repoDir: string, roots: string[], expectedWasmHash: string | null): ArtifactSweep {
+  const files: string[] = [];
+  for (const root of roots) {
+    const dir = join(repoDir, root);
+    if (existsSync(dir) && statSync(dir).isDirectory()) {
+      listWasmFiles(repoDir, root, files);
+    }
+  }
+
+  const expected = expectedWasmHash?.toLowerCase() ?? null;
+  const artifacts = [...new Set(files)].sort().map(path => {
+    const bytes = readFileSync(join(repoDir, path));
+    return { path, sha256: createHash('sha256').update(bytes).digest('hex'), sizeBytes: bytes.length };
+  });
+  return { roots, artifacts, match: artifacts.find(a => a.sha256 === expected) ?? null };
+}
+
+export function formatArtifactSweepSection(sweep: ArtifactSweep, correction: PathCorrection | null): string {
+  let section = `### Artifact Sweep: ${correction ? '⚠️ PATH CORRECTED' : sweep.match ? '✅ FOUND' : '❌ NO BUILT WASM HAS THE EXPECTED HASH'}
+`;
+
+  if (correction) {
+    section += `
+> ⚠️ ${correction.extractionError}. The extracted build steps named the wrong artifact.
+`;
+  }
+
+  section += `
+${sweep.artifacts.length} WASM file(s) under ${sweep.roots.map(r => `\`${r}\``).join(', ')}:
+
+| Path | SHA-256 | Size |
+|------|---------|------|
+${sweep.artifacts.map(a => `| \`${a.path}\`${a.path === sweep.match?.path ? ' ✅' : ''} | \`${a.sha256}\` | ${a.sizeBytes} |`).join('\n')}
+`;
+
+  return section;
+}
@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+
+export const DEFAULT_BUILD_PROFILES_PATH = 'config/build-profiles.json';
+
+// Allowed subcommands per binary; null allows any arguments
+export type CommandAllowlist = Record<string, string[] | null>;
+
+export interface BuildProfileContainer {
+  // Build image the profile is known to work in (informational)
+  image?: string;
+  // Steps need the host Docker socket
+  dockerSocket: boolean;
+  // Run steps as an unprivileged "builder" user when the runner is root
+  nonRootBuilder: boolean;
+  // Create the marker that stops IC build scripts from spawning a nested container
+  icBuildMarker: boolean;
+}
+
+export interface BuildProfile {
+  name: string;
+  description: string;
+  match: {
+    // Normalized repository URLs that select this profile
+    repos?: string[];
+    // Selects this profile when a build step starts with one of these commands
+    commands?: string[];
+  };
+  // Globs, relative to the repository root, where the WASM is expected
+  outputs: string[];
+  commands: CommandAllowlist;
+  bazel?: { targetsFile: string };
+  container: BuildProfileContainer;
+}
+
+export interface BuildProfileRegistry {
+  defaultProfile: string;
+  commonCommands: CommandAllowlist;
+  profiles: Record<string, BuildProfile>;
+}
+
+export function normalizeRepoUrl(url: string): string {
+  return url.replace(/\/$/, '').replace(/\.git$/, '')
+    .replace(/\/tree\/[a-f0-9]+$/, '').replace(/\/commit\/[a-f0-9]+$/, '');
+}
+
+/**
+ * Read the profile registry shared by the extractor, the step validator and
+ * the build runner. Profile names are filled in from their keys.
+ */
+export function loadBuildProfiles(path: string = process.env.BUILD_PROFILES_PATH || DEFAULT_BUILD_PROFILES_PATH): BuildProfileRegistry {
+  const registry = JSON.parse(readFileSync(path, 'utf-8')) as BuildProfileRegistry;
+  for (const [name, profile] of Object.entries(registry.profiles)) {
+    profile.name = name;
+  }
+  if (!(registry.defaultProfile in registry.profiles)) {
+    throw new Error(`Default build profile "${registry.defaultProfile}" is not defined in ${path}`);
+  }
+  return registry;
+}
+
+/**
+ * Pick the profile for a repository. An exact repository match wins; then a
+ * profile whose commands appear at the start of a build step; then the default.
+ * Repository URLs are compared exactly, so dfinity/ic-boundary is not dfinity/ic.
+ */
+export function detectBuildProfile(repoUrl: string, steps: string[] = [], registry: BuildProfileRegistry = loadBuildProfiles()): string {
+  const normalized = normalizeRepoUrl(repoUrl);
+  const profiles = Object.values(registry.profiles);
+
+  const byRepo = profiles.find(p => p.match.repos?.some(r => normalizeRepoUrl(r) === normalized));
+  if (byRepo) {
+    return byRepo.name;
+  }
+
+  const firstWords = steps.map(s => s.trim().split(/\s+/)[0]);
+  const byCommand = profiles.find(p => p.match.commands?.some(c => firstWords.includes(c)));
+  return byCommand ? byCommand.name : registry.defaultProfile;
+}
+
+export function getBuildProfile(name: string, registry: BuildProfileRegistry = loadBuildProfiles()): BuildProfile {
+  const profile = registry.profiles[name];
+  if (!profile) {
+    throw new Error(`Unknown build profile "${name}" (known: ${Object.keys(registry.profiles).join(', ')})`);
+  }
+  return profile;
+}
+
+// The profile's commands plus the ones every profile may run
+export function allowedCommands(profile: BuildProfile, registry: BuildProfileRegistry): CommandAllowlist {
+  return { ...registry.commonCommands, ...profile.commands };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('**/')
+    .map(part => part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('(?:.*/)?');
+  return new RegExp(`^${pattern}$`);
+}
+
+// The first expected output location the path falls under, if any
+export function matchExpectedOutput(profile: BuildProfile, path: string): string | null {
+  const relative = path.replace(/^\.\//, '');
+  return profile.outputs.find(glob => globToRegExp(glob).test(relative)) ?? null;
+}
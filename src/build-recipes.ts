@@ -0,0 +1,126 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { validateExtractedFields } from './llm-extraction.js';
+import { ExtractedBuildFields, UpgradeArgsFields, normalizeExtraction } from './rule-extractor.js';
+
+export const DEFAULT_RECIPES_DIR = 'config/recipes';
+export const DEFAULT_OVERRIDES_DIR = 'config/overrides';
+
+// Known-good build for a recurring canister, stored as <recipesDir>/<canisterId>.json
+export interface BuildRecipe {
+  canisterId: string;
+  name: string;
+  repoUrl: string;
+  // Skips the build runner's BUILD.bazel lookup when set
+  bazelTarget?: string;
+  steps: string[];
+  artifactName: string;
+  wasmOutputPath: string;
+}
+
+// Hand-written build steps for one proposal, stored as <overridesDir>/<proposalId>.json
+export interface BuildOverride extends ExtractedBuildFields {
+  proposalId: string;
+  // Why the override exists, e.g. what the LLM got wrong
+  reason: string;
+  bazelTarget?: string;
+}
+
+export interface RecipeDisagreement {
+  // Which extractor disagreed with the recipe
+  source: 'rules' | 'llm';
+  field: 'repoUrl' | 'steps' | 'wasmOutputPath';
+  recipe: unknown;
+  extracted: unknown;
+}
+
+// The build runner passes the target to a shell, so anything beyond a plain label is refused
+const BAZEL_LABEL = /^\/\/[\w/.+-]*:[\w.+-]+$/;
+
+export function isBazelLabel(target: string): boolean {
+  return BAZEL_LABEL.test(target);
+}
+
+function checkBazelTarget(path: string, target: string | undefined): void {
+  if (target !== undefined && !isBazelLabel(target)) {
+    throw new Error(`${path} has bazelTarget "${target}", which is not a Bazel label like //rs/nns/governance:governance-canister`);
+  }
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not parse ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+export function loadRecipe(canisterId: string, dir: string = DEFAULT_RECIPES_DIR): BuildRecipe | null {
+  const path = join(dir, `${canisterId}.json`);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const recipe = readJson(path) as BuildRecipe;
+  if (recipe.canisterId !== canisterId) {
+    throw new Error(`${path} is for canister ${recipe.canisterId}, not ${canisterId}`);
+  }
+  if (!recipe.repoUrl || !Array.isArray(recipe.steps) || recipe.steps.length === 0 || !recipe.wasmOutputPath) {
+    throw new Error(`${path} must define repoUrl, steps and wasmOutputPath`);
+  }
+  checkBazelTarget(path, recipe.bazelTarget);
+  return recipe;
+}
+
+/**
+ * Load a human-written override for a proposal. Overrides go through the
+ * same field validation as LLM output, so a typo fails here, not mid-build.
+ */
+export function loadOverride(proposalId: string, dir: string = DEFAULT_OVERRIDES_DIR): BuildOverride | null {
+  const path = join(dir, `${proposalId}.json`);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const override = readJson(path) as BuildOverride;
+  if (String(override.proposalId) !== proposalId) {
+    throw new Error(`${path} is for proposal ${override.proposalId}, not ${proposalId}`);
+  }
+  if (!override.reason?.trim()) {
+    throw new Error(`${path} must say why the override is needed in "reason"`);
+  }
+
+  const { errors } = validateExtractedFields({
+    repoUrl: override.repoUrl,
+    steps: override.steps,
+    wasmOutputPath: override.wasmOutputPath,
+    upgradeArgs: override.upgradeArgs ?? null,
+    upgradeArgsDid: override.upgradeArgsDid ?? null,
+    upgradeArgsType: override.upgradeArgsType ?? null,
+  });
+  if (errors.length > 0) {
+    throw new Error(`${path} is invalid: ${errors.join('; ')}`);
+  }
+  checkBazelTarget(path, override.bazelTarget);
+  return override;
+}
+
+// Recipes describe the build only; upgrade arguments change per proposal
+export function recipeFields(recipe: BuildRecipe, args: UpgradeArgsFields): ExtractedBuildFields {
+  return {
+    repoUrl: recipe.repoUrl,
+    steps: recipe.steps,
+    wasmOutputPath: recipe.wasmOutputPath,
+    upgradeArgs: args.upgradeArgs,
+    upgradeArgsDid: args.upgradeArgsDid,
+    upgradeArgsType: args.upgradeArgsType,
+  };
+}
+
+export function compareWithRecipe(recipe: BuildRecipe, fields: ExtractedBuildFields, source: RecipeDisagreement['source']): RecipeDisagreement[] {
+  const expected = normalizeExtraction(recipeFields(recipe, fields));
+  const actual = normalizeExtraction(fields);
+  return (['repoUrl', 'steps', 'wasmOutputPath'] as const)
+    .filter(field => JSON.stringify(expected[field]) !== JSON.stringify(actual[field]))
+    .map(field => ({ source, field, recipe: recipe[field], extracted: fields[field] }));
+}
@@ -0,0 +1,612 @@
+import { appendFileSync, chmodSync, copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import { BuildProfile, detectBuildProfile, getBuildProfile } from './build-profiles.js';
+import { ArtifactSweep, PathCorrection, sweepArtifacts, sweepRoots } from './artifact-sweep.js';
+import { isBazelLabel } from './build-recipes.js';
+import { computeSha256 } from './compare-hash.js';
+import { REPRODUCIBILITY_REPORT_PATH, RebuildSummary, ReproducibilityReport, compareBuilds, verdictLabel } from './reproducibility.js';
+
+export const BUILD_REPORT_PATH = 'build-report.json';
+export const REBUILD_REPORT_PATH = 'build-report-rebuild.json';
+export const OUTPUT_WASM_PATH = 'output/canister.wasm';
+export const REBUILD_WASM_PATH = 'output/canister-rebuild.wasm';
+const REPO_DIR = 'repo';
+
+function setGitHubOutput(name: string, value: string) {
+  const outputFile = process.env.GITHUB_OUTPUT;
+  if (outputFile) {
+    appendFileSync(outputFile, `${name}=${value}\n`);
+  }
+}
+
+function writeGitHubSummary(content: string) {
+  const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+  if (summaryFile) {
+    appendFileSync(summaryFile, content + '\n');
+  }
+}
+
+interface BuildSteps {
+  commitHash: string;
+  repoUrl: string;
+  buildProfile?: string;
+  wasmOutputPath: string;
+  bazelTarget?: string;
+}
+
+interface StepValidation {
+  accepted: boolean;
+  steps: { step: string }[];
+}
+
+export type BuildPhase = 'checkout' | 'setup' | 'targeted' | 'full';
+
+// One command the runner executed
+export interface CommandRun {
+  phase: BuildPhase;
+  command: string;
+  // The builder account the command ran as, or "current"
+  user: string;
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+  // Set when the command could not be started at all
+  error?: string;
+}
+
+export interface BuildArtifact {
+  // How the WASM was found: the expected Bazel output, a search of bazel-bin, the extracted
+  // output path, or a sweep of all build outputs for the expected hash
+  source: 'bazel-output' | 'bazel-bin-search' | 'wasm-output-path' | 'hash-sweep';
+  // Relative to the repository checkout
+  path: string;
+  sha256: string;
+  sizeBytes: number;
+}
+
+export interface BuildReport {
+  proposalId: string | null;
+  commitHash: string;
+  repoUrl: string;
+  buildProfile: string;
+  // The build that produced the artifact; null when nothing was built
+  path: 'targeted-bazel' | 'full' | null;
+  bazelTarget: string | null;
+  bazelTargetSource: 'build-steps' | 'targets-file' | null;
+  targetedBuild: { attempted: boolean; succeeded: boolean };
+  commands: CommandRun[];
+  artifact: BuildArtifact | null;
+  // Every WASM under the build outputs, hashed when the expected path was missing or had the wrong hash
+  sweep: ArtifactSweep | null;
+  // Set when the artifact with the expected hash was found somewhere other than the extracted path
+  pathCorrection: PathCorrection | null;
+  success: boolean;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface RunOptions {
+  cwd: string;
+  // Unprivileged account to run as via su; null runs as the current user
+  builder: string | null;
+  env?: Record<string, string>;
+}
+
+// The inputs every build of a proposal shares
+export interface BuildInputs {
+  proposalId: string | null;
+  buildSteps: BuildSteps;
+  validation: StepValidation;
+  profile: BuildProfile;
+  expectedWasmHash: string | null;
+}
+
+// Where one build runs; the reproducibility check uses two that share nothing
+export interface Workspace {
+  repoDir: string;
+  outputPath: string;
+  builder: string;
+  env: Record<string, string>;
+  // Whether the Bazel remote cache may be used
+  remoteCache: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the Bazel target for a WASM in a targets file such as the IC's
+ * publish/canisters/BUILD.bazel, whose CANISTERS dict maps
+ * "governance-canister.wasm.gz" to "//rs/nns/governance:governance-canister".
+ */
+export function resolveBazelTarget(targetsFile: string, wasmFilename: string): string | null {
+  const match = targetsFile.match(new RegExp(`"${escapeRegExp(wasmFilename)}"\\s*:\\s*"([^"]+)"`));
+  return match && isBazelLabel(match[1]) ? match[1] : null;
+}
+
+// //rs/nns/governance:governance-canister -> bazel-bin/rs/nns/governance/governance-canister.wasm.gz
+export function bazelOutputPath(target: string): string {
+  const [pkg, name] = target.replace(/^\/\//, '').split(':');
+  return join('bazel-bin', pkg, `${name}.wasm.gz`);
+}
+
+/**
+ * The targeted Bazel build command. With a remote cache configured, the
+ * credentials go into a bazelrc file rather than onto the command line. The
+ * file sits in a private directory only the builder can read; the caller
+ * removes that directory after the build.
+ */
+export function bazelBuildCommand(target: string, env: NodeJS.ProcessEnv, builder: string | null = null, tempRoot = tmpdir()): { argv: string[]; bazelrc: string | null } {
+  if (env.BAZEL_REMOTE_CACHE_URL && env.BAZEL_REMOTE_CACHE_TOKEN) {
+    const dir = mkdtempSync(join(tempRoot, 'bazelrc-'));
+    const bazelrcPath = join(dir, 'remote-cache.bazelrc');
+    const bazelrc = [
+      `build --remote_cache=${env.BAZEL_REMOTE_CACHE_URL}`,
+      `build "--remote_header=Authorization=Bearer ${env.BAZEL_REMOTE_CACHE_TOKEN}"`,
+      'build --remote_upload_local_results=true',
+      'build --experimental_remote_downloader=',
+      'build --experimental_remote_cache_compression=false',
+    ].join('\n') + '\n';
+    writeFileSync(bazelrcPath, bazelrc, { mode: 0o600 });
+    if (builder) {
+      const chown = spawnSync('chown', ['-R', `${builder}:${builder}`, dir], { encoding: 'utf-8' });
+      if (chown.status !== 0) {
+        rmSync(dir, { recursive: true, force: true });
+        throw new Error(`Could not hand the remote cache bazelrc to ${builder}: ${chown.error?.message ?? chown.stderr.trim()}`);
+      }
+    }
+    return { argv: ['bazel', `--bazelrc=${bazelrcPath}`, 'build', '--config=stamped', target], bazelrc: bazelrcPath };
+  }
+  // No cache configured; --config=local disables DFINITY's unreachable internal cache
+  return { argv: ['bazel', 'build', '--config=local', '--config=stamped', target], bazelrc: null };
+}
+
+function shellQuote(word: string): string {
+  return /^[\w./:=@%+-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Run a command and record how it ended. A string runs through bash, as the
+ * validated build steps are shell; an argv array runs without a shell. As the
+ * builder user, the command goes through `su` with the same environment flags.
+ */
+export function runCommand(phase: BuildPhase, command: string | string[], options: RunOptions): CommandRun {
+  const display = typeof command === 'string' ? command : command.map(shellQuote).join(' ');
+  const buildEnv: Record<string, string> = {
+    DOCKER_BUILDKIT: '0',
+    DFINITY_CONTAINER: process.env.DFINITY_CONTAINER ?? '',
+    ...options.env,
+  };
+  const exports = Object.entries(buildEnv).map(([k, v]) => `${k}=${shellQuote(v)}`).join(' ');
+
+  console.log('');
+  console.log(`>>> Executing${options.builder ? ` (as ${options.builder})` : ''}: ${display}`);
+  const started = Date.now();
+  const result = options.builder
+    ? spawnSync('su', ['-', options.builder, '-c', `cd ${shellQuote(options.cwd)} && export ${exports} && ${display}`], { stdio: 'inherit' })
+    : typeof command === 'string'
+      ? spawnSync('bash', ['-c', command], { cwd: options.cwd, env: { ...process.env, ...buildEnv }, stdio: 'inherit' })
+      : spawnSync(command[0], command.slice(1), { cwd: options.cwd, env: { ...process.env, ...buildEnv }, stdio: 'inherit' });
+
+  const run: CommandRun = {
+    phase,
+    command: display,
+    user: options.builder ?? 'current',
+    exitCode: result.status,
+    signal: result.signal,
+    durationMs: Date.now() - started,
+    ...(result.error && { error: result.error.message }),
+  };
+  if (run.error) {
+    console.log(`<<< Could not run: ${run.error}`);
+  } else if (run.exitCode !== 0) {
+    console.log(`<<< Exited with ${run.signal ? `signal ${run.signal}` : `code ${run.exitCode}`}`);
+  }
+  return run;
+}
+
+export function succeeded(run: CommandRun): boolean {
+  return run.exitCode === 0;
+}
+
+// Bazel's rules_python refuses to run as root, so root runners build as an unprivileged user
+function setupBuilderScript(user: string): string {
+  return `
+useradd -m -s /bin/bash ${user} 2>/dev/null || true
+chown -R ${user}:${user} .
+mkdir -p /home/${user}/.cache
+chown -R ${user}:${user} /home/${user}
+if [ -S /var/run/docker.sock ]; then
+  DOCKER_SOCKET_GID=$(stat -c '%g' /var/run/docker.sock)
+  groupadd -g "$DOCKER_SOCKET_GID" -f docker 2>/dev/null || true
+  usermod -aG "$DOCKER_SOCKET_GID" ${user} 2>/dev/null || true
+fi
+`;
+}
+
+/**
+ * Locate the built WASM in the checkout. After a targeted build it is the
+ * target's bazel-bin output, or failing that any file of the same name under
+ * bazel-bin; after a full build it is the extracted wasmOutputPath.
+ */
+export function locateArtifact(repoDir: string, wasmOutputPath: string, bazelTarget: string | null): { source: BuildArtifact['source']; path: string } | null {
+  if (bazelTarget) {
+    const expected = bazelOutputPath(bazelTarget);
+    if (existsSync(join(repoDir, expected))) {
+      return { source: 'bazel-output', path: expected };
+    }
+    console.log(`Expected Bazel output not found at ${expected}, searching bazel-bin for ${basename(wasmOutputPath)}...`);
+    // -H follows the bazel-bin symlink itself
+    const found = spawnSync('find', ['-H', 'bazel-bin', '-name', basename(wasmOutputPath), '-type', 'f'], { cwd: repoDir, encoding: 'utf-8' });
+    const first = found.stdout?.split('\n').find(Boolean);
+    return first ? { source: 'bazel-bin-search', path: first } : null;
+  }
+
+  const relative = wasmOutputPath.replace(/^\.\//, '');
+  return existsSync(join(repoDir, relative)) ? { source: 'wasm-output-path', path: relative } : null;
+}
+
+/**
+ * A fresh checkout directory for the rebuild. mkdtemp makes its parent
+ * readable by the runner only, and the builder account has to enter it.
+ */
+export function createRebuildWorkspace(): string {
+  const parent = mkdtempSync(join(tmpdir(), 'rebuild-'));
+  chmodSync(parent, 0o755);
+  return join(parent, 'src');
+}
+
+function readJson<T>(path: string, missing: string): T {
+  if (!existsSync(path)) {
+    throw new Error(missing);
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as T;
+}
+
+function describeRun(run: CommandRun): string {
+  const status = run.exitCode === 0 ? '✅' : '❌';
+  const ended = run.signal ? `signal ${run.signal}` : `exit ${run.exitCode ?? 'n/a'}`;
+  return `${status} [${run.phase}] ${run.command} (${ended}, ${(run.durationMs / 1000).toFixed(1)}s)`;
+}
+
+/**
+ * Clone the commit into the workspace and build it: a targeted Bazel build
+ * when a target is known, otherwise (or if that fails) the validated steps.
+ * Never throws; failures end up in the report's error.
+ */
+export function buildInWorkspace(inputs: BuildInputs, workspace: Workspace): BuildReport {
+  const { proposalId, buildSteps, validation, profile, expectedWasmHash } = inputs;
+  const { commitHash, repoUrl, wasmOutputPath } = buildSteps;
+  const { repoDir, outputPath } = workspace;
+  const wasmFilename = basename(wasmOutputPath);
+
+  const report: BuildReport = {
+    proposalId,
+    commitHash,
+    repoUrl,
+    buildProfile: profile.name,
+    path: null,
+    bazelTarget: null,
+    bazelTargetSource: null,
+    targetedBuild: { attempted: false, succeeded: false },
+    commands: [],
+    artifact: null,
+    sweep: null,
+    pathCorrection: null,
+    success: false,
+    error: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+
+  let builder: string | null = null;
+  const run = (phase: BuildPhase, command: string | string[], cwd = repoDir): CommandRun => {
+    const result = runCommand(phase, command, { cwd, builder: phase === 'checkout' ? null : builder, env: workspace.env });
+    report.commands.push(result);
+    return result;
+  };
+  // Any failing step fails the build; the report still shows how far it got
+  const mustRun = (phase: BuildPhase, command: string | string[], cwd = repoDir) => {
+    const result = run(phase, command, cwd);
+    if (!succeeded(result)) {
+      throw new Error(`Command failed with ${result.error ?? (result.signal ? `signal ${result.signal}` : `exit code ${result.exitCode}`)}: ${result.command}`);
+    }
+  };
+
+  try {
+    console.log('');
+    console.log(`=== Cloning repository into ${repoDir} ===`);
+    if (existsSync(repoDir)) {
+      console.log('Removing existing repo directory...');
+      rmSync(repoDir, { recursive: true, force: true });
+    }
+    mkdirSync(dirname(repoDir), { recursive: true });
+    // Shallow clone, then fetch the specific commit
+    mustRun('checkout', ['git', 'clone', '--depth', '1', repoUrl, repoDir], dirname(repoDir));
+    mustRun('checkout', ['git', 'fetch', '--depth', '1', 'origin', commitHash]);
+    mustRun('checkout', ['git', 'checkout', commitHash]);
+
+    if (buildSteps.bazelTarget) {
+      report.bazelTarget = buildSteps.bazelTarget;
+      report.bazelTargetSource = 'build-steps';
+      console.log('');
+      console.log(`=== Using Bazel target from build-steps.json: ${report.bazelTarget} ===`);
+    } else if (profile.bazel) {
+      const targetsFile = join(repoDir, profile.bazel.targetsFile);
+      if (existsSync(targetsFile)) {
+        report.bazelTarget = resolveBazelTarget(readFileSync(targetsFile, 'utf-8'), wasmFilename);
+        report.bazelTargetSource = report.bazelTarget ? 'targets-file' : null;
+      }
+      console.log('');
+      console.log(report.bazelTarget
+        ? `Found Bazel target in ${profile.bazel.targetsFile}: ${report.bazelTarget}`
+        : `No Bazel target for ${wasmFilename} in ${profile.bazel.targetsFile}, will use full build`);
+    }
+
+    // Patch any scripts that force DOCKER_BUILDKIT=1
+    mustRun('setup', `find . -name "docker-build" -type f -exec sed -i 's/export DOCKER_BUILDKIT=1/export DOCKER_BUILDKIT=0/g' {} \\;`);
+
+    if (process.getuid?.() === 0 && profile.container.nonRootBuilder) {
+      console.log(`Running as root, setting up build user ${workspace.builder}...`);
+      mustRun('setup', setupBuilderScript(workspace.builder));
+      builder = workspace.builder;
+    }
+
+    if (report.bazelTarget) {
+      console.log('');
+      console.log(`=== TARGETED Bazel build: ${report.bazelTarget} ===`);
+      const { argv, bazelrc } = bazelBuildCommand(report.bazelTarget, workspace.remoteCache ? process.env : {}, builder);
+      if (bazelrc) {
+        console.log('Remote cache enabled');
+      }
+      report.targetedBuild.attempted = true;
+      try {
+        report.targetedBuild.succeeded = succeeded(run('targeted', argv));
+      } finally {
+        // The bazelrc holds the cache token
+        if (bazelrc) {
+          rmSync(dirname(bazelrc), { recursive: true, force: true });
+        }
+      }
+      if (!report.targetedBuild.succeeded) {
+        console.log('Targeted build failed, falling back to full build...');
+      }
+    }
+
+    if (report.targetedBuild.succeeded) {
+      report.path = 'targeted-bazel';
+    } else {
+      console.log('');
+      console.log('=== Running full build ===');
+      report.path = 'full';
+
+      // The IC build scripts check for this marker to tell they already run inside the ic-build container
+      if (profile.container.icBuildMarker) {
+        mkdirSync('/home/ubuntu', { recursive: true });
+        writeFileSync('/home/ubuntu/.ic-build-container', '');
+        console.log('Created /home/ubuntu/.ic-build-container marker file');
+      }
+
+      // Run the build steps exactly as the validator accepted them
+      for (const { step } of validation.steps) {
+        mustRun('full', step);
+      }
+    }
+
+    console.log('');
+    console.log('=== Build complete ===');
+    let located = locateArtifact(repoDir, wasmOutputPath, report.targetedBuild.succeeded ? report.bazelTarget : null);
+    const locatedHash = located ? computeSha256(join(repoDir, located.path)) : null;
+    const hasExpectedHash = !!expectedWasmHash && locatedHash === expectedWasmHash.toLowerCase();
+
+    // A correct artifact at the wrong path is an extraction error, not a failed build
+    if (!located || (expectedWasmHash && !hasExpectedHash)) {
+      console.log('');
+      console.log(located
+        ? `${located.path} does not have the expected hash, hashing every WASM under the build outputs...`
+        : `Built WASM not found, hashing every WASM under the build outputs...`);
+      report.sweep = sweepArtifacts(repoDir, sweepRoots(wasmOutputPath), expectedWasmHash);
+      for (const artifact of report.sweep.artifacts) {
+        console.log(`  ${artifact === report.sweep.match ? '✅' : '  '} ${artifact.sha256}  ${artifact.path}`);
+      }
+      console.log(`Swept ${report.sweep.artifacts.length} WASM file(s) under ${report.sweep.roots.join(', ')}`);
+
+      const match = report.sweep.match;
+      if (match) {
+        report.pathCorrection = {
+          extracted: located?.path ?? null,
+          actual: match.path,
+          extractionError: located
+            ? `${located.path} was built but does not have the expected hash; ${match.path} does`
+            : `No WASM at ${report.targetedBuild.succeeded ? `the Bazel output of ${report.bazelTarget}` : wasmOutputPath}; ${match.path} has the expected hash`,
+        };
+        console.log(`Path corrected: ${report.pathCorrection.extractionError}`);
+        located = { source: 'hash-sweep', path: match.path };
+      }
+    }
+
+    if (!located) {
+      console.log(`Profile ${profile.name} expects outputs in: ${profile.outputs.join(' ')}`);
+      throw new Error(`Built WASM not found (expected ${report.targetedBuild.succeeded ? `in bazel-bin for ${report.bazelTarget}` : wasmOutputPath})`);
+    }
+
+    mkdirSync(dirname(outputPath), { recursive: true });
+    copyFileSync(join(repoDir, located.path), outputPath);
+    report.artifact = {
+      ...located,
+      sha256: computeSha256(outputPath),
+      sizeBytes: statSync(outputPath).size,
+    };
+    console.log(`Copied ${located.path} to ${outputPath}`);
+    report.success = true;
+  } catch (err) {
+    report.error = err instanceof Error ? err.message : String(err);
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
+
+function printBuildReport(report: BuildReport, path: string) {
+  console.log('');
+  console.log('BUILD REPORT:');
+  console.log('─────────────────────────────────────────────────────────────────');
+  console.log(`  Build path:   ${report.path ?? 'none'}${report.targetedBuild.attempted && !report.targetedBuild.succeeded ? ' (targeted Bazel build failed)' : ''}`);
+  console.log(`  Bazel target: ${report.bazelTarget ?? '(none)'}${report.bazelTargetSource ? ` from ${report.bazelTargetSource}` : ''}`);
+  report.commands.forEach(c => console.log(`  ${describeRun(c)}`));
+  if (report.artifact) {
+    console.log(`  Artifact:     ${report.artifact.path} (${report.artifact.source}, ${report.artifact.sizeBytes} bytes)`);
+    console.log(`  SHA-256:      ${report.artifact.sha256}`);
+  }
+  if (report.pathCorrection) {
+    console.log(`  ⚠️ Path corrected: ${report.pathCorrection.extractionError}`);
+  }
+  console.log('─────────────────────────────────────────────────────────────────');
+  console.log(`Wrote ${path}`);
+}
+
+function summarizeBuild(report: BuildReport, workspace: Workspace): RebuildSummary {
+  const users = [...new Set(report.commands.filter(c => c.phase !== 'checkout').map(c => c.user))];
+  return {
+    repoDir: workspace.repoDir,
+    user: users.join(', ') || 'current',
+    env: workspace.env,
+    startedAt: report.startedAt,
+    finishedAt: report.finishedAt,
+    success: report.success,
+    error: report.error,
+    sha256: report.artifact?.sha256 ?? null,
+  };
+}
+
+export function formatReproducibilitySection(report: ReproducibilityReport): string {
+  let section = `### Reproducibility: ${verdictLabel(report.verdict)}
+
+| Build | Workspace | User | SHA-256 |
+|-------|-----------|------|---------|
+${report.builds.map((b, i) => `| ${i + 1} | \`${b.repoDir}\` | ${b.user} | ${b.sha256 ? `\`${b.sha256}\`` : `failed: ${b.error}`} |`).join('\n')}
+| Expected | | | \`${report.expectedWasmHash || 'Not found in proposal'}\` |
+`;
+
+  if (report.sectionDifferences.length > 0) {
+    section += `
+| Differing section | Build 1 size | Build 2 size |
+|-------------------|--------------|--------------|
+${report.sectionDifferences.map(d => `| \`${d.name}\` | ${d.a?.size ?? 'missing'} | ${d.b?.size ?? 'missing'} |`).join('\n')}
+`;
+  }
+  if (report.sectionDiffError) {
+    section += `
+> Could not compare sections: ${report.sectionDiffError}
+`;
+  }
+  return section;
+}
+
+async function main() {
+  const doubleBuild = process.argv.includes('--double-build') || process.env.DOUBLE_BUILD === 'true';
+
+  console.log('');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('  STEP 4: BUILD WASM FROM SOURCE');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('');
+
+  let inputs: BuildInputs;
+  let expectedWasmHash: string | null;
+  try {
+    const buildSteps: BuildSteps = readJson('build-steps.json', 'build-steps.json not found. Run extract-build-steps.ts first.');
+    const proposal = readJson<{ proposalId?: string; expectedWasmHash?: string | null }>('proposal.json', 'proposal.json not found. Run fetch-proposal.ts first.');
+    const validation: StepValidation = readJson('step-validation.json', 'step-validation.json not found. Run validate-build-steps.ts first.');
+    // Refuse to run steps that the static validator hasn't accepted
+    if (validation.accepted !== true) {
+      throw new Error('build steps were rejected by validate-build-steps.ts (see step-validation.json).');
+    }
+    const profile = getBuildProfile(buildSteps.buildProfile || detectBuildProfile(buildSteps.repoUrl));
+    if (profile.container.dockerSocket && !existsSync('/var/run/docker.sock')) {
+      throw new Error(`build profile '${profile.name}' needs the Docker socket at /var/run/docker.sock`);
+    }
+    if (buildSteps.bazelTarget && !isBazelLabel(buildSteps.bazelTarget)) {
+      throw new Error(`bazelTarget '${buildSteps.bazelTarget}' in build-steps.json is not a Bazel label`);
+    }
+    expectedWasmHash = proposal.expectedWasmHash ?? null;
+    inputs = { proposalId: proposal.proposalId ?? null, buildSteps, validation, profile, expectedWasmHash };
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  const { profile, buildSteps } = inputs;
+  console.log(`Build profile:        ${profile.name} (${profile.description})`);
+  console.log(`Repository:           ${buildSteps.repoUrl}`);
+  console.log(`Commit hash:          ${buildSteps.commitHash}`);
+  console.log(`Expected WASM output: ${buildSteps.wasmOutputPath}`);
+  if (doubleBuild) {
+    console.log('Double build:         the commit is built a second time in an independent workspace');
+  }
+
+  const primary: Workspace = { repoDir: resolve(REPO_DIR), outputPath: OUTPUT_WASM_PATH, builder: 'builder', env: {}, remoteCache: true };
+  const report = buildInWorkspace(inputs, primary);
+  writeFileSync(BUILD_REPORT_PATH, JSON.stringify(report, null, 2));
+  printBuildReport(report, BUILD_REPORT_PATH);
+
+  if (!report.success) {
+    console.error('');
+    console.error(`❌ BUILD FAILED: ${report.error}`);
+    process.exit(1);
+  }
+
+  if (!doubleBuild) {
+    return;
+  }
+
+  // A different path, user, time zone and start time, and no shared Bazel cache,
+  // so nondeterminism from any of them shows up as a difference
+  console.log('');
+  console.log('=== Rebuilding in an independent workspace ===');
+  const rebuild: Workspace = {
+    repoDir: createRebuildWorkspace(),
+    outputPath: REBUILD_WASM_PATH,
+    builder: 'rebuilder',
+    env: { TZ: 'Pacific/Kiritimati' },
+    remoteCache: false,
+  };
+  const rebuildReport = buildInWorkspace(inputs, rebuild);
+  writeFileSync(REBUILD_REPORT_PATH, JSON.stringify(rebuildReport, null, 2));
+  printBuildReport(rebuildReport, REBUILD_REPORT_PATH);
+  // The artifact has been copied out; a second monorepo checkout is too big to keep around
+  rmSync(dirname(rebuild.repoDir), { recursive: true, force: true });
+
+  const reproducibility = compareBuilds(
+    expectedWasmHash,
+    [summarizeBuild(report, primary), summarizeBuild(rebuildReport, rebuild)],
+    [OUTPUT_WASM_PATH, rebuildReport.success ? REBUILD_WASM_PATH : null]
+  );
+  writeFileSync(REPRODUCIBILITY_REPORT_PATH, JSON.stringify(reproducibility, null, 2));
+
+  console.log('');
+  console.log(`REPRODUCIBILITY: ${verdictLabel(reproducibility.verdict)}`);
+  for (const diff of reproducibility.sectionDifferences) {
+    console.log(`  differs: ${diff.name} (${diff.a?.size ?? 'missing'} vs ${diff.b?.size ?? 'missing'} bytes)`);
+  }
+  if (reproducibility.sectionDiffError) {
+    console.log(`  Could not compare sections: ${reproducibility.sectionDiffError}`);
+  }
+  console.log(`Wrote ${REPRODUCIBILITY_REPORT_PATH}`);
+
+  setGitHubOutput('reproducibility', reproducibility.verdict);
+  writeGitHubSummary(formatReproducibilitySection(reproducibility));
+}
+
+// Only run main if this is the entry point
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch((err) => {
+    console.error('Error building WASM:', err);
+    process.exit(1);
+  });
+}
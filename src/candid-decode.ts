@@ -0,0 +1,278 @@
+import { idlLabelToId } from '@dfinity/candid';
+import { Principal } from '@dfinity/principal';
+import { OPCODES } from './candid-encode.js';
+
+const PRIMITIVE_NAMES = new Map(Object.entries(OPCODES).map(([name, code]) => [code, name]));
+
+const FIXED_WIDTHS: Record<string, { bytes: number; signed: boolean }> = {
+  nat8: { bytes: 1, signed: false },
+  nat16: { bytes: 2, signed: false },
+  nat32: { bytes: 4, signed: false },
+  nat64: { bytes: 8, signed: false },
+  int8: { bytes: 1, signed: true },
+  int16: { bytes: 2, signed: true },
+  int32: { bytes: 4, signed: true },
+  int64: { bytes: 8, signed: true },
+};
+
+// Anything longer is a corrupt length rather than a real argument
+const MAX_ITEMS = 1_000_000;
+
+// A type in the message: a type table index, or a negative primitive opcode
+type TypeRef = number;
+
+type TableEntry =
+  | { kind: 'opt' | 'vec'; inner: TypeRef }
+  | { kind: 'record' | 'variant'; fields: { id: number; type: TypeRef }[] }
+  | { kind: 'func' | 'service' };
+
+class Reader {
+  private pos = 0;
+
+  constructor(private readonly bytes: Buffer) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.pos;
+  }
+
+  byte(): number {
+    if (this.pos >= this.bytes.length) {
+      throw new Error('Unexpected end of message');
+    }
+    return this.bytes[this.pos++];
+  }
+
+  take(length: number): Buffer {
+    if (length > this.remaining) {
+      throw new Error('Unexpected end of message');
+    }
+    this.pos += length;
+    return this.bytes.subarray(this.pos - length, this.pos);
+  }
+
+  leb(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const b = this.byte();
+      result |= BigInt(b & 0x7f) << shift;
+      shift += 7n;
+      if (!(b & 0x80)) return result;
+    }
+  }
+
+  sleb(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const b = this.byte();
+      result |= BigInt(b & 0x7f) << shift;
+      shift += 7n;
+      if (!(b & 0x80)) return b & 0x40 ? result - (1n << shift) : result;
+    }
+  }
+
+  count(): number {
+    const n = this.leb();
+    if (n > BigInt(MAX_ITEMS)) {
+      throw new Error(`Length ${n} is too large`);
+    }
+    return Number(n);
+  }
+}
+
+function readTable(reader: Reader): TableEntry[] {
+  const entries: TableEntry[] = [];
+  const count = reader.count();
+  for (let i = 0; i < count; i++) {
+    const opcode = Number(reader.sleb());
+    switch (opcode) {
+      case OPCODES.opt:
+      case OPCODES.vec:
+        entries.push({ kind: opcode === OPCODES.opt ? 'opt' : 'vec', inner: Number(reader.sleb()) });
+        break;
+      case OPCODES.record:
+      case OPCODES.variant: {
+        const fields = Array.from({ length: reader.count() }, () => ({ id: Number(reader.leb()), type: Number(reader.sleb()) }));
+        entries.push({ kind: opcode === OPCODES.record ? 'record' : 'variant', fields });
+        break;
+      }
+      case OPCODES.func: {
+        const refs = reader.count();
+        for (let j = 0; j < refs; j++) reader.sleb();
+        const rets = reader.count();
+        for (let j = 0; j < rets; j++) reader.sleb();
+        reader.take(reader.count());
+        entries.push({ kind: 'func' });
+        break;
+      }
+      case OPCODES.service: {
+        const methods = reader.count();
+        for (let j = 0; j < methods; j++) {
+          reader.take(reader.count());
+          reader.sleb();
+        }
+        entries.push({ kind: 'service' });
+        break;
+      }
+      default:
+        throw new Error(`Unsupported type opcode ${opcode} in the type table`);
+    }
+  }
+  return entries;
+}
+
+function formatText(text: string): string {
+  const escaped = text
+    .replace(/[\\"]/g, c => `\\${c}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/[\x00-\x1f\x7f]/g, c => `\\u{${c.charCodeAt(0).toString(16)}}`);
+  return `"${escaped}"`;
+}
+
+function formatBlob(bytes: Buffer): string {
+  const body = Array.from(bytes, b => (b >= 0x20 && b < 0x7f && b !== 0x22 && b !== 0x5c)
+    ? String.fromCharCode(b)
+    : `\\${b.toString(16).padStart(2, '0')}`).join('');
+  return `blob "${body}"`;
+}
+
+function readPrincipal(reader: Reader): string {
+  if (reader.byte() !== 1) {
+    throw new Error('Opaque references are not supported');
+  }
+  return Principal.fromUint8Array(reader.take(reader.count())).toText();
+}
+
+class Decoder {
+  constructor(
+    private readonly reader: Reader,
+    private readonly table: TableEntry[],
+    private readonly labels: Map<number, string>,
+  ) {}
+
+  private entry(type: TypeRef): TableEntry {
+    const entry = this.table[type];
+    if (!entry) {
+      throw new Error(`Type index ${type} is not in the type table`);
+    }
+    return entry;
+  }
+
+  private label(id: number): string {
+    const name = this.labels.get(id);
+    if (name === undefined) return String(id);
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : formatText(name);
+  }
+
+  private isNull(type: TypeRef): boolean {
+    return type === OPCODES.null;
+  }
+
+  value(type: TypeRef, topLevel = false): string {
+    if (type < 0) {
+      const { text, annotation } = this.primitive(type);
+      if (!annotation) return text;
+      // Annotations need parentheses anywhere but directly in the argument list
+      return topLevel ? `${text} : ${annotation}` : `(${text} : ${annotation})`;
+    }
+    const entry = this.entry(type);
+    switch (entry.kind) {
+      case 'opt':
+        return this.reader.byte() === 0 ? 'null' : `opt ${this.value(entry.inner)}`;
+      case 'vec': {
+        const length = this.reader.count();
+        if (entry.inner === OPCODES.nat8) {
+          return formatBlob(this.reader.take(length));
+        }
+        const items = Array.from({ length }, () => this.value(entry.inner));
+        return items.length > 0 ? `vec { ${items.join('; ')} }` : 'vec {}';
+      }
+      case 'record': {
+        const values = entry.fields.map(f => this.value(f.type));
+        if (values.length === 0) return 'record {}';
+        const tuple = entry.fields.every((f, i) => f.id === i);
+        const fields = entry.fields.map((f, i) => tuple ? values[i] : `${this.label(f.id)} = ${values[i]}`);
+        return `record { ${fields.join('; ')} }`;
+      }
+      case 'variant': {
+        const index = this.reader.count();
+        const field = entry.fields[index];
+        if (!field) {
+          throw new Error(`Variant index ${index} is out of range`);
+        }
+        const payload = this.value(field.type);
+        return this.isNull(field.type) ? `variant { ${this.label(field.id)} }` : `variant { ${this.label(field.id)} = ${payload} }`;
+      }
+      case 'service':
+        return `service "${readPrincipal(this.reader)}"`;
+      case 'func': {
+        if (this.reader.byte() !== 1) {
+          throw new Error('Opaque references are not supported');
+        }
+        const principal = readPrincipal(this.reader);
+        const method = this.reader.take(this.reader.count()).toString('utf-8');
+        return `func "${principal}".${method}`;
+      }
+    }
+  }
+
+  // Numbers other than int and float64 carry their type, so the text encodes back to the same bytes
+  private primitive(type: TypeRef): { text: string; annotation?: string } {
+    const name = PRIMITIVE_NAMES.get(type);
+    switch (name) {
+      case 'null':
+      case 'reserved':
+        return { text: 'null' };
+      case 'bool':
+        return { text: this.reader.byte() ? 'true' : 'false' };
+      case 'nat':
+        return { text: String(this.reader.leb()), annotation: 'nat' };
+      case 'int':
+        return { text: String(this.reader.sleb()) };
+      case 'float32':
+        return { text: String(this.reader.take(4).readFloatLE()), annotation: 'float32' };
+      case 'float64': {
+        const number = this.reader.take(8).readDoubleLE();
+        return { text: Number.isInteger(number) ? number.toFixed(1) : String(number) };
+      }
+      case 'text':
+        return { text: formatText(this.reader.take(this.reader.count()).toString('utf-8')) };
+      case 'principal':
+        return { text: `principal "${readPrincipal(this.reader)}"` };
+      case 'empty':
+        throw new Error('No value has type empty');
+      case undefined:
+        throw new Error(`Unknown type opcode ${type}`);
+    }
+    const { bytes, signed } = FIXED_WIDTHS[name];
+    const raw = this.reader.take(bytes);
+    const value = bytes === 8
+      ? (signed ? raw.readBigInt64LE() : raw.readBigUInt64LE())
+      : BigInt(signed ? raw.readIntLE(0, bytes) : raw.readUIntLE(0, bytes));
+    return { text: String(value), annotation: name };
+  }
+}
+
+/**
+ * Decode a Candid message into textual Candid, e.g. for showing what an
+ * upgrade argument blob actually says. Field names don't travel on the wire,
+ * only their hashes; names given in `labelNames` are shown instead of the hash.
+ */
+export function decodeCandidArgs(bytes: Uint8Array, labelNames: Iterable<string> = []): string {
+  const reader = new Reader(Buffer.from(bytes));
+  if (reader.take(Math.min(4, reader.remaining)).toString('latin1') !== 'DIDL') {
+    throw new Error('Not a Candid message (no DIDL magic number)');
+  }
+  const table = readTable(reader);
+  const types = Array.from({ length: reader.count() }, () => Number(reader.sleb()));
+  const labels = new Map([...labelNames].map(name => [idlLabelToId(name), name]));
+  const decoder = new Decoder(reader, table, labels);
+  const values = types.map(t => decoder.value(t, true));
+  if (reader.remaining > 0) {
+    throw new Error(`${reader.remaining} unexpected byte(s) after the arguments`);
+  }
+  return `(${values.join(', ')})`;
+}
@@ -0,0 +1,402 @@
+import { createHash } from 'crypto';
+import { lebEncode, slebEncode, writeIntLE, writeUIntLE } from '@dfinity/candid';
+import { Principal } from '@dfinity/principal';
+import { CandidField, CandidType, CandidValue, PrimitiveName, parseCandidArgs, parseCandidTypes, parseDid } from './candid-text.js';
+
+const MAGIC = Buffer.from('DIDL');
+
+export const OPCODES: Record<PrimitiveName | 'opt' | 'vec' | 'record' | 'variant' | 'func' | 'service', number> = {
+  null: -1,
+  bool: -2,
+  nat: -3,
+  int: -4,
+  nat8: -5,
+  nat16: -6,
+  nat32: -7,
+  nat64: -8,
+  int8: -9,
+  int16: -10,
+  int32: -11,
+  int64: -12,
+  float32: -13,
+  float64: -14,
+  text: -15,
+  reserved: -16,
+  empty: -17,
+  opt: -18,
+  vec: -19,
+  record: -20,
+  variant: -21,
+  func: -22,
+  service: -23,
+  principal: -24,
+};
+
+const FUNC_MODES: Record<string, number> = { query: 1, oneway: 2, composite_query: 3 };
+
+const INT_WIDTHS: Partial<Record<PrimitiveName, { bytes: number; signed: boolean }>> = {
+  nat8: { bytes: 1, signed: false },
+  nat16: { bytes: 2, signed: false },
+  nat32: { bytes: 4, signed: false },
+  nat64: { bytes: 8, signed: false },
+  int8: { bytes: 1, signed: true },
+  int16: { bytes: 2, signed: true },
+  int32: { bytes: 4, signed: true },
+  int64: { bytes: 8, signed: true },
+};
+
+export type TypeEnv = Map<string, CandidType>;
+
+type ResolvedType = Exclude<CandidType, { kind: 'var' }>;
+
+export interface EncodeOptions {
+  // Contents of the .did file (didc encode -d)
+  did?: string | null;
+  // Argument types, e.g. "(InitArgs)" (didc encode -t). Defaults to the service's
+  // init arguments when a .did file is given, and to the values' own types otherwise.
+  types?: string | null;
+}
+
+function buf(bytes: ArrayBuffer | Uint8Array): Buffer {
+  return Buffer.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes));
+}
+
+// Follow type aliases to the type they name
+export function resolveType(env: TypeEnv, type: CandidType): ResolvedType {
+  const seen = new Set<string>();
+  let current = type;
+  while (current.kind === 'var') {
+    if (seen.has(current.name)) {
+      throw new Error(`Type ${current.name} is defined only in terms of itself`);
+    }
+    seen.add(current.name);
+    const next = env.get(current.name);
+    if (!next) {
+      throw new Error(`Unknown type ${current.name}`);
+    }
+    current = next;
+  }
+  return current as ResolvedType;
+}
+
+// Structural identity of a type as written, with named types by name, as didc compares them
+function typeKey(type: CandidType): string {
+  switch (type.kind) {
+    case 'prim':
+      return type.name;
+    case 'var':
+      return `$${type.name}`;
+    case 'opt':
+    case 'vec':
+      return `${type.kind} ${typeKey(type.inner)}`;
+    case 'record':
+    case 'variant':
+      return `${type.kind} {${type.fields.map(f => `${f.id}:${typeKey(f.type)}`).join(';')}}`;
+    case 'func':
+      return `func (${type.args.map(typeKey).join(',')}) -> (${type.rets.map(typeKey).join(',')}) ${type.modes.join(' ')}`;
+    case 'service':
+      return `service {${type.methods.map(([name, t]) => `${JSON.stringify(name)}:${typeKey(t)}`).join(';')}}`;
+  }
+}
+
+/**
+ * The type table of a message. Entries are numbered the way didc (the Rust
+ * candid crate) numbers them: a type takes its slot before its component
+ * types do. @dfinity/candid's IDL.encode numbers components first, which is
+ * an equally valid encoding with a different hash.
+ */
+class TypeTable {
+  private readonly entries: Buffer[] = [];
+  private readonly indices = new Map<string, number>();
+
+  constructor(private readonly env: TypeEnv) {}
+
+  add(type: CandidType) {
+    const key = typeKey(type);
+    if (this.indices.has(key)) {
+      return;
+    }
+    const actual = resolveType(this.env, type);
+    if (actual.kind === 'prim') {
+      return;
+    }
+
+    const index = this.entries.length;
+    this.indices.set(key, index);
+    this.entries.push(Buffer.alloc(0));
+
+    const parts: Buffer[] = [buf(slebEncode(OPCODES[actual.kind]))];
+    switch (actual.kind) {
+      case 'opt':
+      case 'vec':
+        this.add(actual.inner);
+        parts.push(this.ref(actual.inner));
+        break;
+      case 'record':
+      case 'variant':
+        actual.fields.forEach(f => this.add(f.type));
+        parts.push(buf(lebEncode(actual.fields.length)));
+        for (const field of actual.fields) {
+          parts.push(buf(lebEncode(field.id)), this.ref(field.type));
+        }
+        break;
+      case 'func':
+        [...actual.args, ...actual.rets].forEach(t => this.add(t));
+        parts.push(buf(lebEncode(actual.args.length)), ...actual.args.map(t => this.ref(t)));
+        parts.push(buf(lebEncode(actual.rets.length)), ...actual.rets.map(t => this.ref(t)));
+        parts.push(buf(lebEncode(actual.modes.length)), Buffer.from(actual.modes.map(m => FUNC_MODES[m])));
+        break;
+      case 'service':
+        actual.methods.forEach(([, t]) => this.add(t));
+        parts.push(buf(lebEncode(actual.methods.length)));
+        for (const [name, t] of actual.methods) {
+          const nameBytes = Buffer.from(name, 'utf-8');
+          parts.push(buf(lebEncode(nameBytes.length)), nameBytes, this.ref(t));
+        }
+        break;
+    }
+    this.entries[index] = Buffer.concat(parts);
+  }
+
+  // A reference to a type: its table index, or the opcode of a primitive
+  ref(type: CandidType): Buffer {
+    const index = this.indices.get(typeKey(type));
+    if (index !== undefined) {
+      return buf(slebEncode(index));
+    }
+    const actual = resolveType(this.env, type);
+    if (actual.kind !== 'prim') {
+      throw new Error(`Type ${typeKey(type)} is missing from the type table`);
+    }
+    return buf(slebEncode(OPCODES[actual.name]));
+  }
+
+  serialize(): Buffer {
+    return Buffer.concat([buf(lebEncode(this.entries.length)), ...this.entries]);
+  }
+}
+
+/**
+ * The type didc gives an untyped value: integers are int, decimals float64,
+ * an empty vec is vec empty, and a vec takes the type of its first element.
+ */
+export function inferType(value: CandidValue): CandidType {
+  switch (value.kind) {
+    case 'null':
+      return { kind: 'prim', name: 'null' };
+    case 'bool':
+      return { kind: 'prim', name: 'bool' };
+    case 'number':
+      return { kind: 'prim', name: value.float ? 'float64' : 'int' };
+    case 'text':
+      return { kind: 'prim', name: 'text' };
+    case 'blob':
+      return { kind: 'vec', inner: { kind: 'prim', name: 'nat8' } };
+    case 'opt':
+      return { kind: 'opt', inner: inferType(value.value) };
+    case 'vec':
+      return { kind: 'vec', inner: value.items.length > 0 ? inferType(value.items[0]) : { kind: 'prim', name: 'empty' } };
+    case 'record':
+      return { kind: 'record', fields: value.fields.map(f => ({ id: f.id, name: f.name, type: inferType(f.value) })) };
+    case 'variant':
+      return { kind: 'variant', fields: [{ id: value.field.id, name: value.field.name, type: inferType(value.field.value) }] };
+    case 'principal':
+      return { kind: 'prim', name: 'principal' };
+    case 'service':
+      return { kind: 'service', methods: [] };
+    case 'func':
+      return { kind: 'func', args: [], rets: [], modes: [] };
+    case 'annotated':
+      return value.type;
+  }
+}
+
+function parseInteger(value: CandidValue, type: string): bigint {
+  if (value.kind !== 'number' || value.float) {
+    throw new Error(`Expected an integer for ${type}, got ${describe(value)}`);
+  }
+  const text = value.text.replace(/_/g, '');
+  const negative = text.startsWith('-');
+  const digits = text.replace(/^[+-]/, '');
+  const magnitude = BigInt(digits);
+  return negative ? -magnitude : magnitude;
+}
+
+function describe(value: CandidValue): string {
+  switch (value.kind) {
+    case 'number':
+      return value.text;
+    case 'bool':
+      return String(value.value);
+    case 'text':
+      return JSON.stringify(value.value);
+    default:
+      return value.kind;
+  }
+}
+
+function principalBytes(text: string): Buffer {
+  const bytes = Principal.fromText(text).toUint8Array();
+  return Buffer.concat([buf(lebEncode(bytes.length)), Buffer.from(bytes)]);
+}
+
+function fieldLabel(field: CandidField): string {
+  return field.name ?? String(field.id);
+}
+
+function encodePrimitive(name: PrimitiveName, value: CandidValue): Buffer {
+  if (name === 'reserved') {
+    return Buffer.alloc(0);
+  }
+  if (name === 'null') {
+    if (value.kind !== 'null') throw new Error(`Expected null, got ${describe(value)}`);
+    return Buffer.alloc(0);
+  }
+  if (name === 'bool') {
+    if (value.kind !== 'bool') throw new Error(`Expected a bool, got ${describe(value)}`);
+    return Buffer.from([value.value ? 1 : 0]);
+  }
+  if (name === 'text') {
+    if (value.kind !== 'text') throw new Error(`Expected text, got ${describe(value)}`);
+    const bytes = Buffer.from(value.value, 'utf-8');
+    return Buffer.concat([buf(lebEncode(bytes.length)), bytes]);
+  }
+  if (name === 'principal') {
+    if (value.kind !== 'principal') throw new Error(`Expected a principal, got ${describe(value)}`);
+    return Buffer.concat([Buffer.from([1]), principalBytes(value.text)]);
+  }
+  if (name === 'float32' || name === 'float64') {
+    if (value.kind !== 'number' || value.text.startsWith('0x')) throw new Error(`Expected a number for ${name}, got ${describe(value)}`);
+    const bytes = Buffer.alloc(name === 'float32' ? 4 : 8);
+    const number = Number(value.text.replace(/_/g, ''));
+    if (name === 'float32') bytes.writeFloatLE(number); else bytes.writeDoubleLE(number);
+    return bytes;
+  }
+  if (name === 'empty') {
+    throw new Error('No value has type empty');
+  }
+
+  const integer = parseInteger(value, name);
+  if (name === 'nat') {
+    if (integer < 0n) throw new Error(`Expected a nat, got ${describe(value)}`);
+    return buf(lebEncode(integer));
+  }
+  if (name === 'int') {
+    return buf(slebEncode(integer));
+  }
+  const { bytes, signed } = INT_WIDTHS[name]!;
+  const bits = BigInt(bytes * 8);
+  const [min, max] = signed ? [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n] : [0n, (1n << bits) - 1n];
+  if (integer < min || integer > max) {
+    throw new Error(`${describe(value)} is out of range for ${name}`);
+  }
+  return buf(signed ? writeIntLE(integer, bytes) : writeUIntLE(integer, bytes));
+}
+
+/**
+ * Encode a value as the given type, the way didc annotates a textual value
+ * before encoding it: missing opt fields of a record are null, fields the
+ * type doesn't have are dropped, and a value for an opt type may omit `opt`.
+ */
+export function encodeValue(env: TypeEnv, type: CandidType, value: CandidValue): Buffer {
+  if (value.kind === 'annotated') {
+    // The annotation must itself describe the value
+    encodeValue(env, value.type, value.value);
+    return encodeValue(env, type, value.value);
+  }
+
+  const actual = resolveType(env, type);
+  switch (actual.kind) {
+    case 'prim':
+      return encodePrimitive(actual.name, value);
+    case 'opt': {
+      if (value.kind === 'null') {
+        return Buffer.from([0]);
+      }
+      const inner = value.kind === 'opt' ? value.value : value;
+      return Buffer.concat([Buffer.from([1]), encodeValue(env, actual.inner, inner)]);
+    }
+    case 'vec': {
+      const inner = resolveType(env, actual.inner);
+      if (value.kind === 'blob') {
+        if (inner.kind !== 'prim' || inner.name !== 'nat8') throw new Error('A blob can only be a vec nat8');
+        return Buffer.concat([buf(lebEncode(value.bytes.length)), Buffer.from(value.bytes)]);
+      }
+      if (value.kind !== 'vec') throw new Error(`Expected a vec, got ${describe(value)}`);
+      return Buffer.concat([buf(lebEncode(value.items.length)), ...value.items.map(item => encodeValue(env, actual.inner, item))]);
+    }
+    case 'record': {
+      if (value.kind !== 'record') throw new Error(`Expected a record, got ${describe(value)}`);
+      const given = new Map(value.fields.map(f => [f.id, f.value]));
+      return Buffer.concat(actual.fields.map(field => {
+        const fieldValue = given.get(field.id);
+        if (fieldValue) {
+          return encodeValue(env, field.type, fieldValue);
+        }
+        const fieldType = resolveType(env, field.type);
+        if (fieldType.kind === 'opt' || (fieldType.kind === 'prim' && (fieldType.name === 'null' || fieldType.name === 'reserved'))) {
+          return encodeValue(env, field.type, { kind: 'null' });
+        }
+        throw new Error(`Record is missing required field ${fieldLabel(field)}`);
+      }));
+    }
+    case 'variant': {
+      if (value.kind !== 'variant') throw new Error(`Expected a variant, got ${describe(value)}`);
+      const index = actual.fields.findIndex(f => f.id === value.field.id);
+      if (index === -1) {
+        throw new Error(`Variant has no case ${value.field.name ?? value.field.id}`);
+      }
+      return Buffer.concat([buf(lebEncode(index)), encodeValue(env, actual.fields[index].type, value.field.value)]);
+    }
+    case 'service':
+      if (value.kind !== 'service') throw new Error(`Expected a service reference, got ${describe(value)}`);
+      return Buffer.concat([Buffer.from([1]), principalBytes(value.text)]);
+    case 'func': {
+      if (value.kind !== 'func') throw new Error(`Expected a func reference, got ${describe(value)}`);
+      const method = Buffer.from(value.method, 'utf-8');
+      return Buffer.concat([Buffer.from([1, 1]), principalBytes(value.principal), buf(lebEncode(method.length)), method]);
+    }
+  }
+}
+
+/** Encode values as a Candid message with the given argument types. */
+export function encodeArgs(env: TypeEnv, types: CandidType[], values: CandidValue[]): Buffer {
+  if (types.length !== values.length) {
+    throw new Error(`Expected ${types.length} argument(s), got ${values.length}`);
+  }
+  const table = new TypeTable(env);
+  types.forEach(t => table.add(t));
+  return Buffer.concat([
+    MAGIC,
+    table.serialize(),
+    buf(lebEncode(types.length)),
+    ...types.map(t => table.ref(t)),
+    ...types.map((t, i) => encodeValue(env, t, values[i])),
+  ]);
+}
+
+/**
+ * Encode textual Candid arguments in-process, as `didc encode [-d did] [-t types] args` would.
+ */
+export function encodeCandidArgs(args: string, options: EncodeOptions = {}): Buffer {
+  const values = parseCandidArgs(args);
+  const did = options.did ? parseDid(options.did) : null;
+  const env: TypeEnv = did?.types ?? new Map();
+
+  let types: CandidType[];
+  if (options.types) {
+    types = parseCandidTypes(options.types);
+  } else if (did) {
+    if (!did.initArgs) {
+      throw new Error('The .did file declares no init arguments; give the argument types explicitly');
+    }
+    types = did.initArgs;
+  } else {
+    types = values.map(inferType);
+  }
+  return encodeArgs(env, types, values);
+}
+
+export function candidArgHash(args: string, options: EncodeOptions = {}): string {
+  return createHash('sha256').update(encodeCandidArgs(args, options)).digest('hex');
+}
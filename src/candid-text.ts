@@ -0,0 +1,498 @@
+import { idlLabelToId } from '@dfinity/candid';
+
+export type PrimitiveName =
+  | 'null' | 'bool' | 'nat' | 'int'
+  | 'nat8' | 'nat16' | 'nat32' | 'nat64'
+  | 'int8' | 'int16' | 'int32' | 'int64'
+  | 'float32' | 'float64' | 'text' | 'reserved' | 'empty' | 'principal';
+
+const PRIMITIVES = new Set<string>([
+  'null', 'bool', 'nat', 'int', 'nat8', 'nat16', 'nat32', 'nat64', 'int8', 'int16', 'int32', 'int64',
+  'float32', 'float64', 'text', 'reserved', 'empty', 'principal',
+]);
+
+export interface CandidField {
+  // The label hash (or the number of a numeric label) that goes on the wire
+  id: number;
+  name: string | null;
+  type: CandidType;
+}
+
+export type CandidType =
+  | { kind: 'prim'; name: PrimitiveName }
+  | { kind: 'var'; name: string }
+  | { kind: 'opt' | 'vec'; inner: CandidType }
+  | { kind: 'record' | 'variant'; fields: CandidField[] }
+  | { kind: 'func'; args: CandidType[]; rets: CandidType[]; modes: string[] }
+  | { kind: 'service'; methods: [string, CandidType][] };
+
+export interface ValueField {
+  id: number;
+  name: string | null;
+  value: CandidValue;
+}
+
+export type CandidValue =
+  | { kind: 'null' }
+  | { kind: 'bool'; value: boolean }
+  // Kept as written; the target type decides how it is encoded
+  | { kind: 'number'; text: string; float: boolean }
+  | { kind: 'text'; value: string }
+  | { kind: 'blob'; bytes: Uint8Array }
+  | { kind: 'opt'; value: CandidValue }
+  | { kind: 'vec'; items: CandidValue[] }
+  | { kind: 'record'; fields: ValueField[] }
+  | { kind: 'variant'; field: ValueField }
+  | { kind: 'principal' | 'service'; text: string }
+  | { kind: 'func'; principal: string; method: string }
+  | { kind: 'annotated'; value: CandidValue; type: CandidType };
+
+export interface DidFile {
+  types: Map<string, CandidType>;
+  // The service's init arguments, when it is declared as a class: service : (InitArgs) -> { ... }
+  initArgs: CandidType[] | null;
+}
+
+type Token =
+  | { kind: 'punct'; value: string; pos: number }
+  | { kind: 'name'; value: string; pos: number }
+  | { kind: 'number'; value: string; float: boolean; pos: number }
+  | { kind: 'string'; bytes: Uint8Array; pos: number }
+  | { kind: 'eof'; pos: number };
+
+function unescape(source: string, start: number): { bytes: Uint8Array; next: number } {
+  const bytes: number[] = [];
+  let i = start;
+  for (;;) {
+    if (i >= source.length) {
+      throw new Error(`Unterminated string starting at ${start - 1}`);
+    }
+    const ch = source[i];
+    if (ch === '"') {
+      return { bytes: Uint8Array.from(bytes), next: i + 1 };
+    }
+    if (ch !== '\\') {
+      const codePoint = source.codePointAt(i)!;
+      bytes.push(...Buffer.from(String.fromCodePoint(codePoint), 'utf-8'));
+      i += codePoint > 0xffff ? 2 : 1;
+      continue;
+    }
+    const next = source[i + 1];
+    const simple: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, '\\': 0x5c, '"': 0x22, "'": 0x27 };
+    if (next in simple) {
+      bytes.push(simple[next]);
+      i += 2;
+    } else if (next === 'u' && source[i + 2] === '{') {
+      const close = source.indexOf('}', i);
+      const hex = source.slice(i + 3, close).replace(/_/g, '');
+      if (close === -1 || !/^[0-9a-fA-F]{1,6}$/.test(hex)) {
+        throw new Error(`Invalid unicode escape at ${i}`);
+      }
+      bytes.push(...Buffer.from(String.fromCodePoint(parseInt(hex, 16)), 'utf-8'));
+      i = close + 1;
+    } else if (/^[0-9a-fA-F]{2}$/.test(source.slice(i + 1, i + 3))) {
+      // \HH is a raw byte, which is how blobs are written
+      bytes.push(parseInt(source.slice(i + 1, i + 3), 16));
+      i += 3;
+    } else {
+      throw new Error(`Invalid escape \\${next} at ${i}`);
+    }
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const space = rest.match(/^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    const number = rest.match(/^[+-]?(0x[0-9a-fA-F][0-9a-fA-F_]*|[0-9][0-9_]*(\.[0-9_]*)?([eE][+-]?[0-9_]+)?)/);
+    if (number) {
+      const float = !number[1].startsWith('0x') && /[.eE]/.test(number[1]);
+      tokens.push({ kind: 'number', value: number[0], float, pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+    if (rest.startsWith('->')) {
+      tokens.push({ kind: 'punct', value: '->', pos: i });
+      i += 2;
+      continue;
+    }
+    if ('(){};,=:.'.includes(rest[0])) {
+      tokens.push({ kind: 'punct', value: rest[0], pos: i });
+      i++;
+      continue;
+    }
+    if (rest[0] === '"') {
+      const { bytes, next } = unescape(source, i + 1);
+      tokens.push({ kind: 'string', bytes, pos: i });
+      i = next;
+      continue;
+    }
+    throw new Error(`Unexpected character '${rest[0]}' at ${i}`);
+  }
+  tokens.push({ kind: 'eof', pos: source.length });
+  return tokens;
+}
+
+function utf8(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new Error('Text is not valid UTF-8');
+  }
+}
+
+// Numeric labels are ids as they are; names are hashed
+function labelId(name: string, numeric: boolean): number {
+  if (numeric) {
+    const id = Number(name.replace(/_/g, ''));
+    if (!Number.isInteger(id) || id < 0 || id >= 2 ** 32) {
+      throw new Error(`Invalid field id ${name}`);
+    }
+    return id;
+  }
+  return idlLabelToId(name);
+}
+
+function sortFields<T extends { id: number; name: string | null }>(fields: T[]): T[] {
+  const sorted = [...fields].sort((a, b) => a.id - b.id);
+  sorted.forEach((f, i) => {
+    if (i > 0 && sorted[i - 1].id === f.id) {
+      throw new Error(`Duplicate field ${f.name ?? f.id}`);
+    }
+  });
+  return sorted;
+}
+
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.pos++;
+    return token;
+  }
+
+  private is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.kind === 'punct' || token.kind === 'name') && token.value === value;
+  }
+
+  private accept(value: string): boolean {
+    if (this.is(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string) {
+    if (!this.accept(value)) {
+      this.fail(`expected '${value}'`);
+    }
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const found = token.kind === 'eof' ? 'end of input' : token.kind === 'string' ? 'a string' : `'${token.value}'`;
+    throw new Error(`Candid syntax error at ${token.pos}: ${message}, found ${found}`);
+  }
+
+  expectEnd() {
+    if (this.peek().kind !== 'eof') {
+      this.fail('expected end of input');
+    }
+  }
+
+  private name(): string {
+    const token = this.next();
+    if (token.kind === 'name') return token.value;
+    if (token.kind === 'string') return utf8(token.bytes);
+    this.pos--;
+    return this.fail('expected a name');
+  }
+
+  private text(): string {
+    const token = this.next();
+    if (token.kind !== 'string') {
+      this.pos--;
+      this.fail('expected a string');
+    }
+    return utf8(token.bytes);
+  }
+
+  // A field label: a name, a quoted name or a number
+  private label(): { id: number; name: string | null } {
+    const token = this.peek();
+    if (token.kind === 'number') {
+      this.pos++;
+      return { id: labelId(token.value, true), name: null };
+    }
+    const name = this.name();
+    return { id: labelId(name, false), name };
+  }
+
+  // ===== Values =====
+
+  args(): CandidValue[] {
+    this.expect('(');
+    const values: CandidValue[] = [];
+    while (!this.is(')')) {
+      // Arguments may be annotated without parentheses: (42 : nat8, "x")
+      const value = this.value();
+      values.push(this.accept(':') ? { kind: 'annotated', value, type: this.type() } : value);
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+    return values;
+  }
+
+  value(): CandidValue {
+    const token = this.peek();
+    if (token.kind === 'number') {
+      this.pos++;
+      return { kind: 'number', text: token.value, float: token.float };
+    }
+    if (token.kind === 'string') {
+      return { kind: 'text', value: this.text() };
+    }
+    if (this.accept('(')) {
+      const value = this.value();
+      const annotated: CandidValue = this.accept(':') ? { kind: 'annotated', value, type: this.type() } : value;
+      this.expect(')');
+      return annotated;
+    }
+    if (token.kind !== 'name') {
+      return this.fail('expected a value');
+    }
+    this.pos++;
+    switch (token.value) {
+      case 'null':
+        return { kind: 'null' };
+      case 'true':
+      case 'false':
+        return { kind: 'bool', value: token.value === 'true' };
+      case 'opt':
+        return { kind: 'opt', value: this.value() };
+      case 'vec': {
+        this.expect('{');
+        const items: CandidValue[] = [];
+        while (!this.is('}')) {
+          items.push(this.value());
+          if (!this.accept(';')) break;
+        }
+        this.expect('}');
+        return { kind: 'vec', items };
+      }
+      case 'record': {
+        this.expect('{');
+        const fields: ValueField[] = [];
+        while (!this.is('}')) {
+          // record { a; b } is shorthand for record { 0 = a; 1 = b }
+          const labelled = this.is('=', 1);
+          const label = labelled ? this.label() : { id: fields.length, name: null };
+          if (labelled) this.expect('=');
+          fields.push({ ...label, value: this.value() });
+          if (!this.accept(';')) break;
+        }
+        this.expect('}');
+        return { kind: 'record', fields: sortFields(fields) };
+      }
+      case 'variant': {
+        this.expect('{');
+        const label = this.label();
+        const value: CandidValue = this.accept('=') ? this.value() : { kind: 'null' };
+        this.accept(';');
+        this.expect('}');
+        return { kind: 'variant', field: { ...label, value } };
+      }
+      case 'blob': {
+        const bytes = this.next();
+        if (bytes.kind !== 'string') {
+          this.pos--;
+          this.fail('expected a string');
+        }
+        return { kind: 'blob', bytes: bytes.bytes };
+      }
+      case 'principal':
+        return { kind: 'principal', text: this.text() };
+      case 'service':
+        return { kind: 'service', text: this.text() };
+      case 'func': {
+        const principal = this.text();
+        this.expect('.');
+        return { kind: 'func', principal, method: this.name() };
+      }
+      default:
+        this.pos--;
+        return this.fail('expected a value');
+    }
+  }
+
+  // ===== Types =====
+
+  type(): CandidType {
+    const token = this.peek();
+    if (token.kind !== 'name') {
+      return this.fail('expected a type');
+    }
+    this.pos++;
+    const word = token.value;
+    if (PRIMITIVES.has(word)) {
+      return { kind: 'prim', name: word as PrimitiveName };
+    }
+    switch (word) {
+      case 'opt':
+      case 'vec':
+        return { kind: word, inner: this.type() };
+      case 'blob':
+        return { kind: 'vec', inner: { kind: 'prim', name: 'nat8' } };
+      case 'record':
+      case 'variant':
+        return { kind: word, fields: this.fieldTypes(word) };
+      case 'func':
+        return this.funcType();
+      case 'service':
+        return this.serviceType();
+      default:
+        return { kind: 'var', name: word };
+    }
+  }
+
+  private fieldTypes(kind: 'record' | 'variant'): CandidField[] {
+    this.expect('{');
+    const fields: CandidField[] = [];
+    while (!this.is('}')) {
+      if (this.is(':', 1)) {
+        const label = this.label();
+        this.expect(':');
+        fields.push({ ...label, type: this.type() });
+      } else if (kind === 'variant') {
+        // variant { a } is shorthand for variant { a : null }
+        fields.push({ ...this.label(), type: { kind: 'prim', name: 'null' } });
+      } else {
+        fields.push({ id: fields.length, name: null, type: this.type() });
+      }
+      if (!this.accept(';')) break;
+    }
+    this.expect('}');
+    return sortFields(fields);
+  }
+
+  // (a : nat, text): argument names are documentation only
+  tuple(): CandidType[] {
+    this.expect('(');
+    const types: CandidType[] = [];
+    while (!this.is(')')) {
+      if (this.is(':', 1)) {
+        this.name();
+        this.expect(':');
+      }
+      types.push(this.type());
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+    return types;
+  }
+
+  private funcType(): CandidType {
+    const args = this.tuple();
+    this.expect('->');
+    const rets = this.tuple();
+    const modes: string[] = [];
+    while (this.is('query') || this.is('oneway') || this.is('composite_query')) {
+      modes.push(this.name());
+    }
+    return { kind: 'func', args, rets, modes };
+  }
+
+  private serviceType(): CandidType {
+    this.expect('{');
+    const methods: [string, CandidType][] = [];
+    while (!this.is('}')) {
+      const name = this.name();
+      this.expect(':');
+      methods.push([name, this.is('(') ? this.funcType() : this.type()]);
+      if (!this.accept(';')) break;
+    }
+    this.expect('}');
+    return { kind: 'service', methods: methods.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)) };
+  }
+
+  did(): DidFile {
+    const types = new Map<string, CandidType>();
+    let initArgs: CandidType[] | null = null;
+    while (this.peek().kind !== 'eof') {
+      if (this.accept('type')) {
+        const name = this.name();
+        this.expect('=');
+        if (types.has(name)) {
+          this.fail(`duplicate type ${name}`);
+        }
+        types.set(name, this.type());
+      } else if (this.accept('import')) {
+        this.fail('imports are not supported');
+      } else if (this.accept('service')) {
+        if (!this.is(':')) this.name();
+        this.expect(':');
+        if (this.is('(')) {
+          initArgs = this.tuple();
+          this.expect('->');
+        }
+        if (this.is('{')) {
+          this.serviceType();
+        } else {
+          this.name();
+        }
+      } else {
+        this.fail("expected 'type' or 'service'");
+      }
+      this.accept(';');
+    }
+    return { types, initArgs };
+  }
+}
+
+/** Parse Candid textual arguments such as `(record { a = 1 }, opt "x")`. */
+export function parseCandidArgs(source: string): CandidValue[] {
+  const parser = new Parser(source);
+  const args = parser.args();
+  parser.expectEnd();
+  return args;
+}
+
+/** Parse a .did file into its named types and the service's init arguments. */
+export function parseDid(source: string): DidFile {
+  return new Parser(source).did();
+}
+
+/**
+ * Parse the type given to `didc encode -t`: a tuple such as `(InitArgs, nat)`,
+ * or a single type.
+ */
+export function parseCandidTypes(source: string): CandidType[] {
+  const parser = new Parser(source);
+  const types = source.trim().startsWith('(') ? parser.tuple() : [parser.type()];
+  parser.expectEnd();
+  return types;
+}
@@ -0,0 +1,138 @@
+import { ExtractedBuildFields } from './rule-extractor.js';
+
+// Where in the proposal summary a field's value appears
+export interface Citation {
+  value: string;
+  // Character offsets into the summary, end exclusive; null when the value is inferred
+  span: { start: number; end: number } | null;
+  // The summary text at the span, verbatim
+  quote: string | null;
+}
+
+// Which extractor produced the fields, as recorded in build-steps.json
+export type ExtractionSource = 'override' | 'recipe' | 'rules' | 'llm';
+
+// How to describe a field that isn't quoted from the summary, by where it came from
+const UNQUOTED_LABELS: Record<ExtractionSource, { tag: string; origin: string }> = {
+  override: { tag: 'from override', origin: 'set by the manual override' },
+  recipe: { tag: 'from recipe', origin: 'taken from the build recipe' },
+  rules: { tag: 'inferred', origin: 'inferred by the rule-based extractor' },
+  llm: { tag: 'inferred', origin: 'inferred by the LLM' },
+};
+
+export function describeUnquoted(source: ExtractionSource): { tag: string; origin: string } {
+  return UNQUOTED_LABELS[source];
+}
+
+export interface BuildCitations {
+  repoUrl: Citation;
+  steps: Citation[];
+  wasmOutputPath: Citation;
+  upgradeArgs: Citation | null;
+  upgradeArgsDid: Citation | null;
+  upgradeArgsType: Citation | null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the first occurrence of any candidate in the summary. Whitespace may
+ * differ, including a command wrapped with a trailing backslash. A match must
+ * not run on into a longer name, so dfinity/ic doesn't cite dfinity/ic-boundary.
+ */
+export function findSpan(summary: string, candidates: string[]): Citation['span'] {
+  for (const candidate of candidates) {
+    const words = candidate.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      continue;
+    }
+    const body = words.map(escapeRegExp).join('(?:\\s|\\\\(?=\\r?\\n))+');
+    // A trailing full stop ends a sentence, not a name
+    const pattern = new RegExp(`(?<![\\w-])${body}(?![\\w-]|\\.\\w)`);
+    const match = pattern.exec(summary);
+    if (match) {
+      return { start: match.index, end: match.index + match[0].length };
+    }
+  }
+  return null;
+}
+
+function cite(summary: string, value: string, candidates: string[] = [value]): Citation {
+  const span = findSpan(summary, candidates);
+  return { value, span, quote: span ? summary.slice(span.start, span.end) : null };
+}
+
+// The forms a repository is usually written in: full URL, clone remote, or owner/repo on github.com
+function repoUrlForms(repoUrl: string): string[] {
+  const url = repoUrl.replace(/\/$/, '').replace(/\.git$/, '');
+  const forms = [url, `${url}.git`];
+  const github = url.match(/^https:\/\/github\.com\/([\w.-]+\/[\w.-]+)$/);
+  if (github) {
+    forms.push(`git@github.com:${github[1]}.git`, `git@github.com:${github[1]}`, `github.com/${github[1]}`);
+  }
+  return forms;
+}
+
+/**
+ * Locate every extracted field in the proposal summary. Fields that can't be
+ * found verbatim were inferred, e.g. the prompt's dfinity/ic default when the
+ * summary names no repository, and deserve a closer look.
+ */
+export function citeExtraction(summary: string, fields: ExtractedBuildFields): BuildCitations {
+  const optional = (value: string | null, candidates?: string[]) =>
+    value === null ? null : cite(summary, value, candidates);
+
+  return {
+    repoUrl: cite(summary, fields.repoUrl, repoUrlForms(fields.repoUrl)),
+    steps: fields.steps.map(step => cite(summary, step)),
+    wasmOutputPath: cite(summary, fields.wasmOutputPath, [fields.wasmOutputPath, `./${fields.wasmOutputPath}`]),
+    upgradeArgs: optional(fields.upgradeArgs),
+    upgradeArgsDid: optional(fields.upgradeArgsDid),
+    upgradeArgsType: optional(fields.upgradeArgsType),
+  };
+}
+
+// Labelled citations in display order, e.g. steps[1] for the second step
+export function listCitations(citations: BuildCitations): { field: string; citation: Citation }[] {
+  const list = [
+    { field: 'repoUrl', citation: citations.repoUrl },
+    ...citations.steps.map((citation, i) => ({ field: `steps[${i}]`, citation })),
+    { field: 'wasmOutputPath', citation: citations.wasmOutputPath },
+    { field: 'upgradeArgs', citation: citations.upgradeArgs },
+    { field: 'upgradeArgsDid', citation: citations.upgradeArgsDid },
+    { field: 'upgradeArgsType', citation: citations.upgradeArgsType },
+  ];
+  return list.filter((entry): entry is { field: string; citation: Citation } => entry.citation !== null);
+}
+
+export function inferredFields(citations: BuildCitations): string[] {
+  return listCitations(citations).filter(c => c.citation.span === null).map(c => c.field);
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function formatCitationSection(citations: BuildCitations, source: ExtractionSource): string {
+  const inferred = inferredFields(citations);
+  const { tag, origin } = describeUnquoted(source);
+  let section = `### Build Field Sources: ${inferred.length > 0 ? `⚠️ ${inferred.length} ${tag.toUpperCase()}` : '✅ ALL QUOTED'}
+`;
+
+  if (inferred.length > 0) {
+    section += `
+> ⚠️ These fields do not appear in the proposal summary and were ${origin}: ${inferred.map(f => `\`${f}\``).join(', ')}
+`;
+  }
+
+  section += `
+| Field | Value | Summary chars | Quote |
+|-------|-------|---------------|-------|
+${listCitations(citations).map(({ field, citation: c }) =>
+    `| ${field} | \`${markdownCell(c.value)}\` | ${c.span ? `${c.span.start}-${c.span.end}` : `**${tag}**`} | ${c.quote ? `\`${markdownCell(c.quote)}\`` : '-'} |`).join('\n')}
+`;
+
+  return section;
+}
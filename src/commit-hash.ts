@@ -0,0 +1,122 @@
+export interface CommitCandidate {
+  hash: string;
+  score: number;
+  occurrences: number;
+  // Why the candidate scored the way it did, for the report
+  reasons: string[];
+}
+
+export interface CommitExtraction {
+  commitHash: string | null;
+  candidates: CommitCandidate[];
+  // True when the top candidates are too close to tell apart
+  ambiguous: boolean;
+}
+
+// Top two candidates closer than this are reported as ambiguous
+const AMBIGUITY_MARGIN = 15;
+
+const COMMIT_REGEX = /\b[a-f0-9]{40}\b/gi;
+
+interface Signal {
+  pattern: RegExp;
+  score: number;
+  reason: string;
+}
+
+// Text on the same line before the hash. Old-version labels are checked
+// first so "Current git hash" isn't mistaken for the commit being proposed.
+const LABEL_SIGNALS: Signal[] = [
+  { pattern: /\b(current|previous|old|last|prior)\b[^\n]*$/i, score: -40, reason: 'labeled as the current/previous version' },
+  { pattern: /\b(git hash|git commit|source code|commit( hash| id)?|new commit|target commit)\b[^\n]*$/i, score: 50, reason: 'labeled as the source commit' },
+];
+
+function lineBefore(text: string, index: number): string {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  return text.slice(lineStart, index);
+}
+
+function addSignal(candidate: CommitCandidate, score: number, reason: string) {
+  candidate.score += score;
+  if (!candidate.reasons.includes(reason)) {
+    candidate.reasons.push(reason);
+  }
+}
+
+/**
+ * Collect every 40-hex commit hash in the proposal and rank them. Proposals
+ * often cite the previous version, compare ranges and release links next to
+ * the commit being proposed, so the first match isn't necessarily the right one.
+ */
+export function extractCommitCandidates(title: string, summary: string, url: string): CommitExtraction {
+  const text = `${title}\n${summary}\n${url}`;
+  const byHash = new Map<string, CommitCandidate>();
+
+  const candidate = (hash: string): CommitCandidate => {
+    const key = hash.toLowerCase();
+    let entry = byHash.get(key);
+    if (!entry) {
+      entry = { hash: key, score: 0, occurrences: 0, reasons: [] };
+      byHash.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const match of text.matchAll(COMMIT_REGEX)) {
+    const entry = candidate(match[0]);
+    entry.occurrences++;
+
+    const before = lineBefore(text, match.index!);
+    const signal = LABEL_SIGNALS.find(s => s.pattern.test(before));
+    if (signal) {
+      addSignal(entry, signal.score, signal.reason);
+    }
+  }
+
+  if (byHash.size === 0) {
+    return { commitHash: null, candidates: [], ambiguous: false };
+  }
+
+  // Links to a single commit or tree
+  for (const match of text.matchAll(/\/(?:commit|tree)\/([a-f0-9]{40})\b/gi)) {
+    addSignal(candidate(match[1]), 20, 'linked as /commit/ or /tree/');
+  }
+
+  // compare/a...b links and `git log a..b` ranges: b is the new version, a the old one
+  for (const match of text.matchAll(/\b([a-f0-9]{40})\.\.\.?([a-f0-9]{40})\b/gi)) {
+    addSignal(candidate(match[2]), 25, 'end of a compare range');
+    addSignal(candidate(match[1]), -25, 'start of a compare range');
+  }
+
+  for (const match of text.matchAll(/git checkout\s+([a-f0-9]{40})\b/gi)) {
+    addSignal(candidate(match[1]), 40, 'checked out in verification steps');
+  }
+
+  if (url) {
+    for (const match of url.matchAll(COMMIT_REGEX)) {
+      addSignal(candidate(match[0]), 10, 'in the proposal URL');
+    }
+  }
+
+  // Titles usually abbreviate the new commit, e.g. "Upgrade ... to Commit 789e5a1"
+  for (const match of title.matchAll(/\b([a-f0-9]{7,39})\b/gi)) {
+    for (const entry of byHash.values()) {
+      if (entry.hash.startsWith(match[1].toLowerCase())) {
+        addSignal(entry, 30, 'abbreviated in the title');
+      }
+    }
+  }
+
+  for (const entry of byHash.values()) {
+    if (entry.occurrences > 1) {
+      addSignal(entry, 5 * (entry.occurrences - 1), `mentioned ${entry.occurrences} times`);
+    }
+  }
+
+  // Ties keep first-appearance order, which is how the old extractor picked
+  const candidates = [...byHash.values()].sort((a, b) => b.score - a.score);
+  const [top, runnerUp] = candidates;
+  const ambiguous = !!runnerUp && top.score - runnerUp.score < AMBIGUITY_MARGIN;
+
+  return { commitHash: top.hash, candidates, ambiguous };
+}
@@ -1,6 +1,16 @@
 import { readFileSync, appendFileSync, existsSync } from 'fs';
 import { createHash } from 'crypto';
-import { execSync } from 'child_process';
+import { join } from 'path';
+import { ArgRecovery, PreviousArgs, collectArgCandidates, formatArgRecoverySection, labelNames, printArgRecovery, readDidFromCheckout, recoverUpgradeArgs } from './arg-recovery.js';
+import { ArtifactSweep, PathCorrection, formatArtifactSweepSection } from './artifact-sweep.js';
+import { decodeCandidArgs } from './candid-decode.js';
+import { encodeCandidArgs } from './candid-encode.js';
+import { CommitCandidate } from './commit-hash.js';
+import { InstallMode, installModeLabel, installModeWarnings, warningIcon } from './install-mode.js';
+import { SummaryHashCheck } from './summary-hashes.js';
+import { GzipComparison, classifyHashMismatch, formatGzipComparisonSection, printGzipComparison } from './wasm-gzip.js';
+import { WasmDiff, diffAgainstReferenceFile, formatWasmDiffSection, printWasmDiff, resolveReferenceWasm } from './wasm-diff.js';
+import { EmbeddedCommitCheck, WasmInspection, checkEmbeddedCommit, formatWasmInspectionSection, inspectWasmFile, printInspection } from './wasm-inspector.js';
 
 interface ProposalData {
   proposalId: string;
@@ -8,8 +18,15 @@ interface ProposalData {
   summary: string;
   url: string;
   commitHash: string | null;
+  commitCandidates?: CommitCandidate[];
+  commitAmbiguous?: boolean;
   expectedWasmHash: string | null;
   expectedArgHash: string | null;
+  summaryHashes?: SummaryHashCheck;
+  installMode?: InstallMode | null;
+  skipStoppingBeforeInstalling?: boolean | null;
+  isProtocolCanister?: boolean;
+  previousUpgrade?: PreviousArgs | null;
 }
 
 interface BuildSteps {
@@ -22,6 +39,12 @@ interface BuildSteps {
   upgradeArgsType: string | null;
 }
 
+// The parts of build-report.json that bear on the verdict
+interface BuildReport {
+  sweep?: ArtifactSweep | null;
+  pathCorrection?: PathCorrection | null;
+}
+
 export function computeSha256(filePath: string): string {
   const fileBuffer = readFileSync(filePath);
   const hash = createHash('sha256');
@@ -44,6 +67,80 @@ export function compareHashes(actualHash: string, expectedHash: string | null):
   };
 }
 
+export function formatInstallModeSection(proposalData: ProposalData): string {
+  const installMode = proposalData.installMode ?? null;
+  const skipStopping = proposalData.skipStoppingBeforeInstalling ?? null;
+  const warnings = installModeWarnings(installMode, skipStopping, proposalData.isProtocolCanister ?? false);
+  const critical = warnings.some(w => w.severity === 'critical');
+
+  let section = `### Install Mode: ${critical ? '🚨 ' : ''}${installModeLabel(installMode)}
+`;
+
+  for (const warning of warnings) {
+    section += `
+> ${warningIcon(warning.severity)} ${warning.severity === 'critical' ? `**${warning.message}**` : warning.message}
+`;
+  }
+
+  section += `
+| Flag | Value |
+|------|-------|
+| Install mode | \`${installMode || 'n/a'}\` |
+| Skip stopping before installing | ${skipStopping === null ? 'n/a' : skipStopping ? '**yes**' : 'no'} |
+`;
+
+  return section;
+}
+
+export function formatCommitSection(proposalData: ProposalData): string {
+  const candidates = proposalData.commitCandidates ?? [];
+  let section = `### Source Commit: ${proposalData.commitAmbiguous ? '⚠️ AMBIGUOUS' : `\`${proposalData.commitHash || 'Not found'}\``}
+`;
+
+  if (proposalData.commitAmbiguous) {
+    section += `
+> ⚠️ The proposal mentions several commits and the top candidates can't be told apart. The highest ranked one was built.
+`;
+  }
+
+  if (candidates.length > 1) {
+    section += `
+| Commit | Score | Why |
+|--------|-------|-----|
+${candidates.map(c => `| \`${c.hash}\` | ${c.score} | ${c.reasons.join('; ') || '-'} |`).join('\n')}
+`;
+  }
+
+  return section;
+}
+
+export function formatSummaryHashSection(proposalData: ProposalData): string {
+  const check = proposalData.summaryHashes;
+  if (!check || check.stated.length === 0) {
+    return '';
+  }
+
+  let section = `### Hashes Stated in Summary: ${check.mismatches.length > 0 ? '⚠️ DIFFER FROM PAYLOAD' : '✅ CONSISTENT'}
+`;
+
+  if (check.mismatches.length > 0) {
+    section += `
+> ⚠️ The summary presents a hash that is not the one in the onchain payload. Voters reading the text would be misled even if the build matches.
+`;
+  }
+
+  section += `
+| Hash | Claims to be | Why | Matches payload |
+|------|--------------|-----|-----------------|
+${check.stated.map(s => {
+    const matches = s.kind === 'wasm' || s.kind === 'arg' ? (check.mismatches.some(m => m.hash === s.hash) ? '❌' : '✅') : '-';
+    return `| \`${s.hash}\` | ${s.kind} | ${s.reason} | ${matches} |`;
+  }).join('\n')}
+`;
+
+  return section;
+}
+
 function writeGitHubSummary(content: string) {
   const summaryFile = process.env.GITHUB_STEP_SUMMARY;
   if (summaryFile) {
@@ -51,25 +148,30 @@ function writeGitHubSummary(content: string) {
   }
 }
 
-export function computeArgHash(upgradeArgs: string, didFile?: string | null, typeName?: string | null): string | null {
+export interface ArgEncoding {
+  argHash: string;
+  // The encoded bytes read back as textual Candid
+  decoded: string;
+}
+
+/**
+ * Encode the upgrade arguments in-process, as `didc encode -d <did> -t <type>`
+ * would, and hash the bytes. The .did path is relative to the repository checkout.
+ */
+export function computeArgHash(upgradeArgs: string, didFile?: string | null, typeName?: string | null, repoDir = 'repo'): ArgEncoding | null {
   try {
-    // Build didc encode command with optional type info
-    // e.g., didc encode -d canister/candid.did -t '(canister_arg)' '(variant { ... })'
-    let cmd = 'didc encode';
-    if (didFile) cmd += ` -d '${didFile}'`;
-    if (typeName) cmd += ` -t '${typeName}'`;
-    cmd += ` '${upgradeArgs}'`;
-
-    console.log(`Running: ${cmd}`);
-    const encoded = execSync(cmd, { encoding: 'utf-8' }).trim();
-
-    // Convert hex string to bytes and compute sha256
-    const bytes = Buffer.from(encoded, 'hex');
-    const hash = createHash('sha256');
-    hash.update(bytes);
-    return hash.digest('hex');
+    let did: string | null = null;
+    if (didFile) {
+      console.log(`Reading Candid types from ${join(repoDir, didFile)}`);
+      did = readDidFromCheckout(repoDir, didFile);
+    }
+    const bytes = encodeCandidArgs(upgradeArgs, { did, types: typeName });
+    return {
+      argHash: createHash('sha256').update(bytes).digest('hex'),
+      decoded: decodeCandidArgs(bytes, labelNames(upgradeArgs, did)),
+    };
   } catch (err) {
-    console.error('Failed to compute arg hash with didc:', err);
+    console.error(`Failed to encode upgrade args: ${err instanceof Error ? err.message : err}`);
     return null;
   }
 }
@@ -94,6 +196,13 @@ async function main() {
     console.warn('Could not read build-steps.json (upgrade args verification will be skipped)');
   }
 
+  let buildReport: BuildReport | null = null;
+  try {
+    buildReport = JSON.parse(readFileSync('build-report.json', 'utf-8'));
+  } catch {
+    // Older runs and local builds have no report; there is just no sweep to show
+  }
+
   // Check WASM file exists
   if (!existsSync(wasmPath)) {
     console.error(`WASM file not found at ${wasmPath}`);
@@ -118,12 +227,70 @@ async function main() {
 
   console.log(`Expected WASM hash: ${expectedWasmHash || 'Not found in proposal'}`);
   console.log(`Actual WASM hash:   ${actualWasmHash}`);
+  if (buildReport?.pathCorrection) {
+    console.log(`⚠️ Path corrected: ${buildReport.pathCorrection.extractionError}`);
+  }
 
   const { match: wasmMatch } = compareHashes(actualWasmHash, expectedWasmHash);
 
+  // ===== WASM CONTENTS =====
+  console.log('');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('  WASM CONTENTS');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('');
+
+  let inspection: WasmInspection | null = null;
+  let commitCheck: EmbeddedCommitCheck | null = null;
+  try {
+    inspection = inspectWasmFile(wasmPath);
+    commitCheck = checkEmbeddedCommit(inspection, proposalData.commitHash);
+    printInspection(inspection, commitCheck);
+  } catch (err) {
+    console.warn(`Could not inspect the built WASM: ${err instanceof Error ? err.message : err}`);
+  }
+
+  // Two hex strings say nothing about what differs; a reference module can
+  let referenceDiff: WasmDiff | null = null;
+  const reference = wasmMatch ? null : resolveReferenceWasm(process.argv.slice(2));
+  if (reference) {
+    console.log('');
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log('  SECTION DIFF AGAINST REFERENCE');
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log('');
+
+    try {
+      referenceDiff = diffAgainstReferenceFile(wasmPath, reference, expectedWasmHash);
+      printWasmDiff(referenceDiff);
+    } catch (err) {
+      console.warn(`Could not diff against ${reference.path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  // Separate a different module from the same module compressed differently
+  let gzipComparison: GzipComparison | null = null;
+  if (!wasmMatch && expectedWasmHash) {
+    console.log('');
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log('  MISMATCH DIAGNOSIS');
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log('');
+
+    try {
+      const referenceBytes = reference && existsSync(reference.path) ? readFileSync(reference.path) : null;
+      gzipComparison = classifyHashMismatch(readFileSync(wasmPath), expectedWasmHash, referenceBytes);
+      printGzipComparison(gzipComparison);
+    } catch (err) {
+      console.warn(`Could not diagnose the mismatch: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
   // ===== ARG HASH VERIFICATION =====
   let argMatch = true; // Default to true if no arg hash to verify
   let actualArgHash: string | null = null;
+  let decodedArgs: string | null = null;
+  let argRecovery: ArgRecovery | null = null;
   const expectedArgHash = proposalData.expectedArgHash;
   const upgradeArgs = buildSteps?.upgradeArgs;
   const upgradeArgsDid = buildSteps?.upgradeArgsDid;
@@ -142,19 +309,14 @@ async function main() {
       if (upgradeArgsType) console.log(`Args type: ${upgradeArgsType}`);
       console.log('Computing SHA256 of encoded upgrade arguments...');
 
-      // If we have a .did file, run from the repo directory so didc can find it
-      if (upgradeArgsDid && existsSync('repo')) {
-        const origDir = process.cwd();
-        process.chdir('repo');
-        actualArgHash = computeArgHash(upgradeArgs, upgradeArgsDid, upgradeArgsType);
-        process.chdir(origDir);
-      } else {
-        actualArgHash = computeArgHash(upgradeArgs, upgradeArgsDid, upgradeArgsType);
-      }
+      const encoding = computeArgHash(upgradeArgs, upgradeArgsDid, upgradeArgsType);
+      actualArgHash = encoding?.argHash ?? null;
+      decodedArgs = encoding?.decoded ?? null;
 
       if (actualArgHash) {
         console.log(`Expected arg hash: ${expectedArgHash}`);
         console.log(`Actual arg hash:   ${actualArgHash}`);
+        console.log(`Decoded args:      ${decodedArgs}`);
         argMatch = actualArgHash.toLowerCase() === expectedArgHash.toLowerCase();
       } else {
         console.error('Failed to compute arg hash');
@@ -163,8 +325,17 @@ async function main() {
     } else {
       console.warn('Warning: Proposal has arg_hash but no upgrade args were extracted from summary');
       console.log(`Expected arg hash: ${expectedArgHash}`);
-      console.log(`Actual arg hash:   (could not compute - no upgrade args found)`);
-      argMatch = false;
+      console.log('Trying candidate arguments against the arg hash...');
+      console.log('');
+
+      // A .did file named without arguments still says how to type the candidates
+      const typings = upgradeArgsDid || upgradeArgsType ? [{ didFile: upgradeArgsDid ?? null, types: upgradeArgsType ?? null }] : [];
+      const previous = proposalData.previousUpgrade ?? null;
+      argRecovery = recoverUpgradeArgs(expectedArgHash, collectArgCandidates('repo', previous), typings, 'repo', previous);
+      printArgRecovery(argRecovery);
+      actualArgHash = argRecovery.match?.argHash ?? null;
+      decodedArgs = argRecovery.match?.decoded ?? null;
+      argMatch = !!argRecovery.match;
     }
   }
 
@@ -183,14 +354,31 @@ async function main() {
     argStatusText = argMatch ? 'MATCH' : 'MISMATCH';
   }
 
-  const overallStatusEmoji = overallMatch ? '✅' : '❌';
-  const overallStatusText = overallMatch ? 'VERIFIED' : 'FAILED';
+  // A matching build is still a match, but voters should know the text was unclear
+  const commitAmbiguous = !!proposalData.commitAmbiguous;
+  const summaryMisleading = (proposalData.summaryHashes?.mismatches.length ?? 0) > 0;
+  const embeddedCommitDiffers = commitCheck?.status === 'mismatch';
+  const pathCorrected = !!buildReport?.pathCorrection;
+  const argsRecovered = !!argRecovery?.match;
+  const caveats = [
+    ...(pathCorrected ? ['PATH CORRECTED'] : []),
+    ...(argsRecovered ? ['ARGS RECOVERED'] : []),
+    ...(commitAmbiguous ? ['AMBIGUOUS COMMIT'] : []),
+    ...(summaryMisleading ? ['SUMMARY HASH MISMATCH'] : []),
+    ...(embeddedCommitDiffers ? ['EMBEDDED COMMIT MISMATCH'] : []),
+  ];
+  const caveatText = caveats.length > 0 ? ` (${caveats.join(', ')})` : '';
+  const overallStatusEmoji = overallMatch ? (caveats.length > 0 ? '⚠️' : '✅') : '❌';
+  const overallStatusText = `${overallMatch ? 'VERIFIED' : 'FAILED'}${caveatText}`;
 
   let summary = `## Build Verification Result: ${overallStatusEmoji} ${overallStatusText}
 
 **Proposal ID:** ${proposalData.proposalId}
 **Title:** ${proposalData.title}
 
+${formatInstallModeSection(proposalData)}
+${formatCommitSection(proposalData)}
+${formatSummaryHashSection(proposalData)}
 ### WASM Hash: ${wasmStatusEmoji} ${wasmStatusText}
 
 | Hash Type | Value |
@@ -199,6 +387,26 @@ async function main() {
 | Actual | \`${actualWasmHash}\` |
 `;
 
+  if (buildReport?.sweep) {
+    summary += `
+${formatArtifactSweepSection(buildReport.sweep, buildReport.pathCorrection ?? null)}`;
+  }
+
+  if (gzipComparison) {
+    summary += `
+${formatGzipComparisonSection(gzipComparison)}`;
+  }
+
+  if (referenceDiff) {
+    summary += `
+${formatWasmDiffSection(referenceDiff)}`;
+  }
+
+  if (inspection && commitCheck) {
+    summary += `
+${formatWasmInspectionSection(inspection, commitCheck)}`;
+  }
+
   if (hasArgVerification) {
     summary += `
 ### Upgrade Args Hash: ${argStatusEmoji} ${argStatusText}
@@ -207,8 +415,13 @@ async function main() {
 |-----------|-------|
 | Expected | \`${expectedArgHash}\` |
 | Actual | \`${actualArgHash || 'Could not compute'}\` |
-| Args | \`${upgradeArgs || 'Not found in proposal'}\` |
+| Args | ${upgradeArgs ? `\`${upgradeArgs}\`` : argRecovery?.match ? `Not stated; recovered from ${argRecovery.match.candidate.origin}` : 'Not found in proposal'} |
+| Decoded | ${decodedArgs ? `\`${decodedArgs}\`` : '-'} |
 `;
+    if (argRecovery) {
+      summary += `
+${formatArgRecoverySection(argRecovery)}`;
+    }
   }
 
   summary += `
@@ -216,12 +429,19 @@ ${overallMatch ? '### ✅ All verifications passed!' : '### ❌ Verification fai
 `;
 
   console.log('\n' + '='.repeat(60));
+  console.log(`INSTALL MODE: ${installModeLabel(proposalData.installMode ?? null)}`);
+  for (const warning of installModeWarnings(proposalData.installMode ?? null, proposalData.skipStoppingBeforeInstalling ?? null, proposalData.isProtocolCanister ?? false)) {
+    console.log(`  ${warningIcon(warning.severity)} ${warning.message}`);
+  }
   console.log(`WASM HASH: ${wasmMatch ? '✅ VERIFIED' : (expectedWasmHash ? '❌ FAILED' : '⚠️ CANNOT VERIFY')}`);
+  if (commitCheck) {
+    console.log(`EMBEDDED COMMIT: ${commitCheck.status === 'match' ? '✅' : commitCheck.status === 'mismatch' ? '❌' : '⚠️'} ${commitCheck.embedded || 'none'}`);
+  }
   if (hasArgVerification) {
-    console.log(`ARG HASH:  ${argMatch ? '✅ VERIFIED' : '❌ FAILED'}`);
+    console.log(`ARG HASH:  ${argMatch ? '✅ VERIFIED' : '❌ FAILED'}${argRecovery?.match ? ` (recovered from ${argRecovery.match.candidate.origin})` : ''}`);
   }
   console.log('─'.repeat(60));
-  console.log(`OVERALL:   ${overallMatch ? '✅ VERIFICATION PASSED' : '❌ VERIFICATION FAILED'}`);
+  console.log(`OVERALL:   ${overallMatch ? '✅ VERIFICATION PASSED' : '❌ VERIFICATION FAILED'}${caveatText}`);
   console.log('='.repeat(60));
 
   writeGitHubSummary(summary);
@@ -0,0 +1,65 @@
+// 'update' goes through consensus and the response is certified by the subnet;
+// 'query' is answered (and signed) by a single replica
+export type FetchMethod = 'update' | 'query';
+
+export const DEFAULT_IC_HOSTS = ['https://ic0.app'];
+
+// Candid method annotations for the chosen fetch method. Dropping 'query'
+// makes the agent submit an update call and verify the certificate it returns.
+export function methodAnnotations(method: FetchMethod): string[] {
+  return method === 'query' ? ['query'] : [];
+}
+
+export function parseHosts(value: string | undefined): string[] {
+  if (!value) {
+    return DEFAULT_IC_HOSTS;
+  }
+  const hosts = value.split(',').map(h => h.trim().replace(/\/$/, '')).filter(Boolean);
+  return hosts.length > 0 ? hosts : DEFAULT_IC_HOSTS;
+}
+
+// Convert decoded Candid values into a stable JSON string so responses from
+// different hosts can be compared structurally. Principals serialize through
+// their own toJSON.
+export function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (typeof v === 'bigint') {
+      return v.toString();
+    }
+    if (v instanceof Uint8Array) {
+      return Buffer.from(v).toString('hex');
+    }
+    return v;
+  });
+}
+
+export interface HostDisagreement {
+  field: string;
+  values: Record<string, string>;
+}
+
+/**
+ * Compare the same record fetched from several hosts, field by field.
+ * Returns one entry per top-level field whose value is not identical everywhere.
+ */
+export function findDisagreements<T extends object>(responses: Record<string, T>): HostDisagreement[] {
+  const hosts = Object.keys(responses);
+  if (hosts.length < 2) {
+    return [];
+  }
+
+  const fields = new Set(hosts.flatMap(h => Object.keys(responses[h]))) as Set<keyof T & string>;
+  const disagreements: HostDisagreement[] = [];
+
+  for (const field of fields) {
+    const values: Record<string, string> = {};
+    for (const host of hosts) {
+      values[host] = canonicalize(responses[host][field]) ?? 'undefined';
+    }
+    if (new Set(Object.values(values)).size > 1) {
+      disagreements.push({ field, values });
+    }
+  }
+
+  return disagreements;
+}
@@ -1,5 +1,21 @@
-import { GoogleGenAI } from '@google/genai';
-import { readFileSync, writeFileSync } from 'fs';
+import { appendFileSync, readFileSync, writeFileSync } from 'fs';
+import { DEFAULT_LLM_PROVIDERS, createLlmProviders, resolveQuorum } from './llm-provider.js';
+import { collectExtractions, reachConsensus } from './llm-consensus.js';
+import { extractWithRetries, resolveMaxAttempts } from './llm-extraction.js';
+import { detectBuildProfile, normalizeRepoUrl } from './build-profiles.js';
+import { CachingLlmProvider, DEFAULT_LLM_CACHE_DIR, LlmCacheContext, LlmCacheUse } from './llm-cache.js';
+import { ExtractedBuildFields, FieldAgreement, compareExtractions, extractBuildStepsByRules, extractUpgradeArgsByRules } from './rule-extractor.js';
+import {
+  DEFAULT_OVERRIDES_DIR,
+  DEFAULT_RECIPES_DIR,
+  RecipeDisagreement,
+  compareWithRecipe,
+  loadOverride,
+  loadRecipe,
+  recipeFields,
+} from './build-recipes.js';
+import { NNS_FUNCTION_ADD_SNS_WASM } from './nns-functions.js';
+import { BuildCitations, ExtractionSource, citeExtraction, describeUnquoted, formatCitationSection, inferredFields, listCitations } from './citations.js';
 
 interface ProposalData {
   proposalId: string;
@@ -10,27 +26,57 @@ interface ProposalData {
   expectedWasmHash: string | null;
   expectedArgHash: string | null;
   canisterId: string | null;
+  nnsFunction?: number | null;
 }
 
 interface BuildSteps {
   commitHash: string;
   repoUrl: string;
-  buildProfile: 'ic-monorepo' | 'standard';
+  // Name of a profile in config/build-profiles.json
+  buildProfile: string;
   steps: string[];
   wasmOutputPath: string;
   upgradeArgs: string | null;
   upgradeArgsDid: string | null;
   upgradeArgsType: string | null;
+  // Set by recipes and overrides; the build runner then skips its BUILD.bazel lookup
+  bazelTarget?: string;
+  // Where each field above appears in the proposal summary
+  citations: BuildCitations;
+  // Which extractor produced the fields above
+  extractor: ExtractionSource;
+  // The override's stated reason, or the recipe's canister name
+  source?: string;
+  // Fields where the rules or LLM result differs from the recipe that was used
+  recipeDisagreements?: RecipeDisagreement[];
+  // Why the rule-based parser gave up, when the LLM was used as a fallback
+  ruleFailures?: string[];
+  // Field-by-field comparison, present only when both extractors ran
+  agreement?: FieldAgreement[];
+  // Which LLM providers voted for the result, when LLMs were consulted
+  llmConsensus?: LlmConsensusSummary;
+  // Cache entries holding the raw LLM responses behind this file
+  llmCache?: { dir: string; replay: boolean; entries: LlmCacheUse[] };
 }
 
-export function normalizeRepoUrl(url: string): string {
-  return url.replace(/\/$/, '').replace(/\.git$/, '')
-    .replace(/\/tree\/[a-f0-9]+$/, '').replace(/\/commit\/[a-f0-9]+$/, '');
+function writeGitHubSummary(content: string) {
+  const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+  if (summaryFile) {
+    appendFileSync(summaryFile, content + '\n');
+  }
+}
+
+interface LlmCacheOptions {
+  dir: string;
+  replay: boolean;
+  context: LlmCacheContext;
 }
 
-export function detectBuildProfile(repoUrl: string): 'ic-monorepo' | 'standard' {
-  const normalized = normalizeRepoUrl(repoUrl);
-  return normalized === 'https://github.com/dfinity/ic' ? 'ic-monorepo' : 'standard';
+interface LlmConsensusSummary {
+  quorum: number;
+  agreeing: string[];
+  dissenting: string[];
+  failed: string[];
 }
 
 const EXTRACTION_PROMPT = `You are analyzing an ICP (Internet Computer Protocol) governance proposal to extract build verification instructions.
@@ -63,56 +109,60 @@ Common build patterns:
 Proposal text:
 `;
 
-async function callGemini(prompt: string): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is required');
+/**
+ * Ask every configured provider and accept the answer a quorum agrees on.
+ * Exits with a disagreement report rather than picking one model's answer.
+ */
+async function extractWithLlms(
+  prompt: string,
+  cache: LlmCacheOptions | null
+): Promise<{ fields: ExtractedBuildFields; summary: LlmConsensusSummary; cacheUses: LlmCacheUse[] }> {
+  const providers = createLlmProviders(process.env.LLM_PROVIDERS || DEFAULT_LLM_PROVIDERS)
+    .map(p => cache ? new CachingLlmProvider(p, cache.dir, cache.context, cache.replay) : p);
+  const quorum = resolveQuorum(providers.length, process.env.LLM_QUORUM);
+  console.log(`Asking ${providers.length} LLM provider(s), quorum ${quorum}: ${providers.map(p => p.name).join(', ')}`);
+
+  const maxAttempts = resolveMaxAttempts(process.env.LLM_MAX_ATTEMPTS);
+  const extractions = await collectExtractions(providers, provider => extractWithRetries(provider, prompt, maxAttempts));
+  const consensus = reachConsensus(extractions, quorum);
+  const cacheUses = providers.flatMap(p => p instanceof CachingLlmProvider ? p.uses : []);
+  if (cache) {
+    const hits = cacheUses.filter(u => u.hit).length;
+    console.log(`LLM cache (${cache.dir}): ${hits} cached, ${cacheUses.length - hits} new response(s)`);
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash',
-    contents: prompt,
-    config: {
-      temperature: 0.1,
-      maxOutputTokens: 1024,
-    },
-  });
-
-  return response.text || '';
-}
-
-function parseGeminiResponse(response: string): { repoUrl: string; steps: string[]; wasmOutputPath: string; upgradeArgs: string | null } {
-  // Try to extract JSON from the response
-  let jsonStr = response.trim();
-
-  // Remove markdown code blocks if present
-  if (jsonStr.startsWith('```')) {
-    jsonStr = jsonStr.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  for (const { provider, error } of consensus.failed) {
+    console.log(`⚠️  ${provider} failed: ${error}`);
   }
 
-  try {
-    const parsed = JSON.parse(jsonStr);
-
-    if (!Array.isArray(parsed.steps)) {
-      throw new Error('Invalid response: steps must be an array');
+  if (consensus.status === 'disagreement') {
+    console.error('');
+    console.error('❌ LLM PROVIDERS DID NOT REACH QUORUM');
+    console.error(`   ${extractions.length - consensus.failed.length} of ${extractions.length} provider(s) answered; ${quorum} must agree.`);
+    for (const { field, values } of consensus.disagreements) {
+      console.error(`   ${field}:`);
+      for (const [provider, value] of Object.entries(values)) {
+        console.error(`     ${provider}: ${value}`);
+      }
     }
+    process.exit(1);
+  }
 
-    const repoUrl = normalizeRepoUrl(parsed.repoUrl || 'https://github.com/dfinity/ic');
-    return {
-      repoUrl,
-      steps: parsed.steps,
-      wasmOutputPath: parsed.wasmOutputPath || 'output.wasm',
-      upgradeArgs: parsed.upgradeArgs || null,
-      upgradeArgsDid: parsed.upgradeArgsDid || null,
-      upgradeArgsType: parsed.upgradeArgsType || null,
-    };
-  } catch (err) {
-    console.error('Failed to parse Gemini response:', response);
-    throw new Error(`Failed to parse LLM response: ${err}`);
+  console.log(`LLM consensus: ${consensus.agreeing.length} of ${providers.length} provider(s) agree`);
+  if (consensus.dissenting.length > 0) {
+    console.log(`⚠️  Outvoted: ${consensus.dissenting.join(', ')}`);
   }
+
+  return {
+    fields: consensus.fields,
+    summary: {
+      quorum,
+      agreeing: consensus.agreeing,
+      dissenting: consensus.dissenting,
+      failed: consensus.failed.map(f => f.provider),
+    },
+    cacheUses,
+  };
 }
 
 async function main() {
@@ -130,14 +180,29 @@ async function main() {
     process.exit(1);
   }
 
+  const args = process.argv.slice(2);
+  // --compare-llm also runs the LLM when the rules succeed, to report agreement
+  const compareWithLlm = args.includes('--compare-llm') || process.env.EXTRACT_COMPARE_LLM === 'true';
+  // --replay only serves cached LLM responses and never calls a provider
+  const replay = args.includes('--replay') || process.env.LLM_REPLAY === 'true';
+  const noCache = args.includes('--no-llm-cache');
+  const cacheDirIndex = args.indexOf('--llm-cache');
+  const cacheDir = (cacheDirIndex !== -1 ? args[cacheDirIndex + 1] : undefined) || process.env.LLM_CACHE_DIR || DEFAULT_LLM_CACHE_DIR;
+
+  if (replay && noCache) {
+    console.error('--replay needs the LLM cache; it cannot be combined with --no-llm-cache.');
+    process.exit(1);
+  }
+
   console.log('');
   console.log('═══════════════════════════════════════════════════════════════');
-  console.log('  STEP 2: EXTRACT BUILD INSTRUCTIONS VIA LLM');
+  console.log('  STEP 2: EXTRACT BUILD INSTRUCTIONS');
   console.log('═══════════════════════════════════════════════════════════════');
   console.log('');
-  console.log('TRUST ASSUMPTION: Using Google Gemini to parse the proposal');
-  console.log('summary and extract the build commands. The LLM interprets the');
-  console.log('human-readable instructions to determine how to build the WASM.');
+  console.log('TRUST ASSUMPTION: Build commands come from a reviewed override or');
+  console.log('recipe in this repository when one exists, and otherwise are parsed');
+  console.log('deterministically from the proposal\'s Verification section. LLMs are');
+  console.log('only asked when that parse fails, and a quorum must agree.');
   console.log('');
   console.log(`Proposal: ${proposalData.title}`);
   console.log(`Commit to build: ${proposalData.commitHash}`);
@@ -148,24 +213,151 @@ Summary: ${proposalData.summary}
 URL: ${proposalData.url}
 `;
 
-  const response = await callGemini(prompt);
-  console.log('Gemini response received');
+  const cache: LlmCacheOptions | null = noCache ? null : {
+    dir: cacheDir,
+    replay,
+    context: {
+      promptTemplate: EXTRACTION_PROMPT,
+      title: proposalData.title,
+      summary: proposalData.summary,
+      url: proposalData.url,
+    },
+  };
+  if (replay) {
+    console.log(`REPLAY MODE: LLM responses come only from ${cacheDir}; no provider is called.`);
+  }
 
-  const { repoUrl, steps, wasmOutputPath, upgradeArgs, upgradeArgsDid, upgradeArgsType } = parseGeminiResponse(response);
+  const overridesDir = process.env.BUILD_OVERRIDES_DIR || DEFAULT_OVERRIDES_DIR;
+  const recipesDir = process.env.BUILD_RECIPES_DIR || DEFAULT_RECIPES_DIR;
+  const override = loadOverride(proposalData.proposalId, overridesDir);
+  // AddSnsWasm targets SNS-W but ships an SNS canister, so SNS-W's own recipe doesn't apply
+  const recipe = !override && proposalData.canisterId && proposalData.nnsFunction !== NNS_FUNCTION_ADD_SNS_WASM
+    ? loadRecipe(proposalData.canisterId, recipesDir)
+    : null;
+
+  const ruleResult = extractBuildStepsByRules(proposalData.summary);
+  let fields: ExtractedBuildFields;
+  let extractor: BuildSteps['extractor'];
+  let source: string | undefined;
+  let bazelTarget: string | undefined;
+  let ruleFailures: string[] | undefined;
+  let agreement: FieldAgreement[] | undefined;
+  let recipeDisagreements: RecipeDisagreement[] | undefined;
+  let llmConsensus: LlmConsensusSummary | undefined;
+  let cacheUses: LlmCacheUse[] | undefined;
+
+  if (override) {
+    console.log(`Using manual override ${overridesDir}/${proposalData.proposalId}.json`);
+    console.log(`  Reason: ${override.reason}`);
+    fields = {
+      repoUrl: override.repoUrl,
+      steps: override.steps,
+      wasmOutputPath: override.wasmOutputPath,
+      upgradeArgs: override.upgradeArgs ?? null,
+      upgradeArgsDid: override.upgradeArgsDid ?? null,
+      upgradeArgsType: override.upgradeArgsType ?? null,
+    };
+    extractor = 'override';
+    source = override.reason;
+    bazelTarget = override.bazelTarget;
+  } else if (recipe) {
+    console.log(`Using checked-in recipe for ${recipe.name} (${recipe.canisterId})`);
+    // The recipe fixes the build; the upgrade arguments still come from this proposal
+    fields = recipeFields(recipe, extractUpgradeArgsByRules(proposalData.summary));
+    extractor = 'recipe';
+    source = recipe.name;
+    bazelTarget = recipe.bazelTarget;
+
+    recipeDisagreements = ruleResult.ok ? compareWithRecipe(recipe, ruleResult.fields, 'rules') : [];
+    if (compareWithLlm) {
+      const llm = await extractWithLlms(prompt, cache);
+      recipeDisagreements.push(...compareWithRecipe(recipe, llm.fields, 'llm'));
+      llmConsensus = llm.summary;
+      cacheUses = llm.cacheUses;
+    }
+  } else if (ruleResult.ok) {
+    console.log('Rule-based parser extracted the build instructions');
+    fields = ruleResult.fields;
+    extractor = 'rules';
+
+    if (compareWithLlm) {
+      const llm = await extractWithLlms(prompt, cache);
+      agreement = compareExtractions(ruleResult.fields, llm.fields);
+      llmConsensus = llm.summary;
+      cacheUses = llm.cacheUses;
+    }
+  } else {
+    console.log('⚠️  Rule-based parser could not extract the build instructions:');
+    ruleResult.reasons.forEach(reason => console.log(`     - ${reason}`));
+    console.log('   Falling back to the LLM.');
+    ruleFailures = ruleResult.reasons;
+    const llm = await extractWithLlms(prompt, cache);
+    fields = llm.fields;
+    llmConsensus = llm.summary;
+    cacheUses = llm.cacheUses;
+    extractor = 'llm';
+  }
+
+  const repoUrl = normalizeRepoUrl(fields.repoUrl);
+  const { steps, wasmOutputPath, upgradeArgs, upgradeArgsDid, upgradeArgsType } = fields;
 
   console.log('');
-  console.log('LLM EXTRACTED BUILD INSTRUCTIONS:');
+  const extractorLabels: Record<BuildSteps['extractor'], string> = {
+    override: 'MANUAL OVERRIDE',
+    recipe: 'RECIPE',
+    rules: 'RULE-BASED EXTRACTED',
+    llm: 'LLM EXTRACTED',
+  };
+  console.log(`${extractorLabels[extractor]} BUILD INSTRUCTIONS:`);
   console.log('─────────────────────────────────────────────────────────────────');
-  const buildProfile = detectBuildProfile(repoUrl);
+  const buildProfile = detectBuildProfile(repoUrl, steps);
 
   console.log(`  Repository:       ${repoUrl}`);
   console.log(`  Build profile:    ${buildProfile}`);
   console.log(`  Number of steps:  ${steps.length}`);
   console.log(`  WASM output path: ${wasmOutputPath}`);
+  if (bazelTarget) console.log(`  Bazel target:     ${bazelTarget}`);
   console.log(`  Upgrade args:     ${upgradeArgs || '(none)'}`);
   if (upgradeArgsDid) console.log(`  Args .did file:   ${upgradeArgsDid}`);
   if (upgradeArgsType) console.log(`  Args type:        ${upgradeArgsType}`);
 
+  const citations = citeExtraction(proposalData.summary, { ...fields, repoUrl });
+  const inferred = inferredFields(citations);
+  const unquoted = describeUnquoted(extractor);
+  console.log('');
+  console.log('SOURCES IN THE PROPOSAL SUMMARY:');
+  for (const { field, citation } of listCitations(citations)) {
+    const where = citation.span ? `chars ${citation.span.start}-${citation.span.end}` : `⚠️  ${unquoted.tag.toUpperCase()} (not found in the summary)`;
+    console.log(`  ${field.padEnd(16)} ${where}`);
+  }
+  if (inferred.length > 0) {
+    console.log(`  ${inferred.length} field(s) were ${unquoted.origin} rather than quoted; check them against the proposal.`);
+  }
+  writeGitHubSummary(formatCitationSection(citations, extractor));
+
+  if (agreement) {
+    console.log('');
+    console.log('RULES vs LLM AGREEMENT:');
+    agreement.forEach(a => {
+      console.log(`  ${a.agree ? '✅' : '❌'} ${a.field}`);
+      if (!a.agree) {
+        console.log(`       rules: ${JSON.stringify(a.rules)}`);
+        console.log(`       llm:   ${JSON.stringify(a.llm)}`);
+      }
+    });
+  }
+
+  if (recipeDisagreements && recipeDisagreements.length > 0) {
+    console.log('');
+    console.log('⚠️  WARNING: THE PROPOSAL TEXT DISAGREES WITH THE RECIPE');
+    console.log('   The recipe is used. Check whether the recipe is out of date.');
+    recipeDisagreements.forEach(d => {
+      console.log(`   ${d.field} (${d.source}):`);
+      console.log(`       recipe:    ${JSON.stringify(d.recipe)}`);
+      console.log(`       extracted: ${JSON.stringify(d.extracted)}`);
+    });
+  }
+
   const buildSteps: BuildSteps = {
     commitHash: proposalData.commitHash,
     repoUrl,
@@ -175,6 +367,15 @@ URL: ${proposalData.url}
     upgradeArgs,
     upgradeArgsDid,
     upgradeArgsType,
+    ...(bazelTarget && { bazelTarget }),
+    citations,
+    extractor,
+    ...(source && { source }),
+    ...(recipeDisagreements && { recipeDisagreements }),
+    ...(ruleFailures && { ruleFailures }),
+    ...(agreement && { agreement }),
+    ...(llmConsensus && { llmConsensus }),
+    ...(cache && cacheUses && { llmCache: { dir: cache.dir, replay, entries: cacheUses } }),
   };
 
   writeFileSync('build-steps.json', JSON.stringify(buildSteps, null, 2));
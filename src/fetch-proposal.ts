@@ -1,8 +1,14 @@
-import { HttpAgent, Actor } from '@dfinity/agent';
-import { Principal } from '@dfinity/principal';
 import { writeFileSync, appendFileSync } from 'fs';
-
-const GOVERNANCE_CANISTER_ID = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+import { decodeNnsFunctionPayload, isSupportedNnsFunction, nnsFunctionName } from './nns-functions.js';
+import { extractSnsUpgradeHashes } from './sns-governance.js';
+import { FetchMethod, HostDisagreement, findDisagreements } from './cross-check.js';
+import { GovernanceClient, createGovernanceClient } from './governance-client.js';
+import { NetworkOverrides, parseNetworkArgs, resolveNetworkConfig } from './network-config.js';
+import { CommitCandidate, extractCommitCandidates } from './commit-hash.js';
+import { SummaryHashCheck, checkStatedHashes } from './summary-hashes.js';
+import { InstallMode, installModeFromCode, installModeLabel, installModeWarnings, warningIcon } from './install-mode.js';
+import { PROPOSAL_STATUS_EXECUTED } from './monitor-proposals.js';
+import { UpgradeArgsFields, extractUpgradeArgsByRules } from './rule-extractor.js';
 
 function setGitHubOutput(name: string, value: string) {
   const outputFile = process.env.GITHUB_OUTPUT;
@@ -11,203 +17,527 @@ function setGitHubOutput(name: string, value: string) {
   }
 }
 
-// IDL for get_proposal_info with action variants
-const governanceIdl = ({ IDL }: { IDL: any }) => {
-  const InstallCode = IDL.Record({
-    skip_stopping_before_installing: IDL.Opt(IDL.Bool),
-    wasm_module_hash: IDL.Opt(IDL.Vec(IDL.Nat8)),
-    canister_id: IDL.Opt(IDL.Principal),
-    arg_hash: IDL.Opt(IDL.Vec(IDL.Nat8)),
-    install_mode: IDL.Opt(IDL.Int32),
-  });
-
-  // Minimal record for other action types (we only need to detect them, not process them)
-  const UpdateCanisterSettings = IDL.Record({
-    canister_id: IDL.Opt(IDL.Principal),
-    settings: IDL.Opt(IDL.Record({})),
-  });
-
-  const ProposalInfo = IDL.Record({
-    id: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
-    proposer: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
-    proposal: IDL.Opt(IDL.Record({
-      title: IDL.Opt(IDL.Text),
-      summary: IDL.Text,
-      url: IDL.Text,
-      action: IDL.Opt(IDL.Variant({
-        InstallCode: InstallCode,
-        UpdateCanisterSettings: UpdateCanisterSettings,
-        // Other action types will be captured as unknown variants
-      })),
-    })),
-    status: IDL.Int32,
-    executed_timestamp_seconds: IDL.Nat64,
-  });
-
-  return IDL.Service({
-    get_proposal_info: IDL.Func([IDL.Nat64], [IDL.Opt(ProposalInfo)], ['query']),
-  });
-};
-
-interface ProposalData {
+export interface ProposalData {
   proposalId: string;
   title: string;
   summary: string;
   url: string;
+  network: string;
+  governanceCanisterId: string;
+  actionType: 'InstallCode' | 'ExecuteNnsFunction' | 'UpgradeSnsControlledCanister';
+  nnsFunction: number | null;
   commitHash: string | null;
+  // Every commit hash found in the proposal, best first
+  commitCandidates: CommitCandidate[];
+  commitAmbiguous: boolean;
   expectedWasmHash: string | null;
   expectedArgHash: string | null;
+  // Hashes the summary text states, checked against the two above
+  summaryHashes: SummaryHashCheck;
   canisterId: string | null;
+  installMode: InstallMode | null;
+  skipStoppingBeforeInstalling: boolean | null;
+  // NNS-controlled canisters, where a reinstall is a hard warning
+  isProtocolCanister: boolean;
+  fetchMethod: FetchMethod;
+  hosts: string[];
+  // The canister's last executed upgrade, looked up only when this summary states no arguments
+  previousUpgrade: PreviousUpgrade | null;
 }
 
-function extractCommitHash(text: string): string | null {
-  // Look for git commit patterns (40-char hex)
-  const commitRegex = /\b([a-f0-9]{40})\b/gi;
-  const match = text.match(commitRegex);
-  return match ? match[0] : null;
+export interface PreviousUpgrade extends UpgradeArgsFields {
+  proposalId: string;
+  title: string;
+  argHash: string | null;
 }
 
+// How many pages of 100 proposals to look back through for the previous upgrade
+const PREVIOUS_UPGRADE_PAGES = 5;
+
 function bytesToHex(bytes: number[] | Uint8Array): string {
   return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-async function main() {
-  const proposalId = process.argv[2];
+interface FetchedProposal {
+  title: string;
+  summary: string;
+  url: string;
+  action: any;
+}
 
-  if (!proposalId) {
-    console.error('Usage: tsx fetch-proposal.ts <proposal_id>');
-    process.exit(1);
+async function fetchNnsProposal(client: GovernanceClient, proposalId: string): Promise<FetchedProposal> {
+  const result = await client.getProposalInfo(BigInt(proposalId));
+
+  if (!result || result.length === 0 || !result[0]) {
+    throw new Error(`Proposal ${proposalId} not found`);
   }
 
-  console.log('');
-  console.log('═══════════════════════════════════════════════════════════════');
-  console.log('  STEP 1: FETCH PROPOSAL FROM NNS GOVERNANCE (ONCHAIN)');
-  console.log('═══════════════════════════════════════════════════════════════');
-  console.log('');
-  console.log('TRUST ASSUMPTION: Querying the NNS Governance canister directly');
-  console.log('to retrieve the official proposal data from the IC blockchain.');
-  console.log('');
-  console.log(`Proposal ID: ${proposalId}`);
-  console.log(`Governance Canister: ${GOVERNANCE_CANISTER_ID}`);
-  console.log(`IC Endpoint: https://ic0.app`);
-  console.log('');
+  const proposalInfo = result[0];
+  const proposal = proposalInfo.proposal?.[0];
 
-  const agent = new HttpAgent({ host: 'https://ic0.app' });
+  if (!proposal) {
+    throw new Error('Proposal data is empty');
+  }
 
-  const governance = Actor.createActor(governanceIdl, {
-    agent,
-    canisterId: Principal.fromText(GOVERNANCE_CANISTER_ID),
-  });
+  return {
+    title: proposal.title?.[0] || 'Untitled',
+    summary: proposal.summary || '',
+    url: proposal.url || '',
+    action: proposal.action?.[0],
+  };
+}
 
-  const result = await governance.get_proposal_info(BigInt(proposalId)) as any;
+async function fetchSnsProposal(client: GovernanceClient, proposalId: string): Promise<FetchedProposal> {
+  const response = await client.getSnsProposal(BigInt(proposalId));
+  const result = response.result?.[0];
 
-  if (!result || result.length === 0 || !result[0]) {
-    console.error(`Proposal ${proposalId} not found`);
-    process.exit(1);
+  if (!result) {
+    throw new Error(`Proposal ${proposalId} not found`);
   }
 
-  const proposalInfo = result[0];
-  const proposal = proposalInfo.proposal?.[0];
+  if (result.Error) {
+    throw new Error(`SNS governance returned an error: ${result.Error.error_message}`);
+  }
+
+  const proposal = result.Proposal.proposal?.[0];
 
   if (!proposal) {
-    console.error('Proposal data is empty');
-    process.exit(1);
+    throw new Error('Proposal data is empty');
   }
 
-  const title = proposal.title?.[0] || 'Untitled';
-  const summary = proposal.summary || '';
-  const url = proposal.url || '';
-
-  // Check if this is an InstallCode action (code upgrade)
-  // Other action types (UpdateCanisterSettings, etc.) don't have code to verify
-  const action = proposal.action?.[0];
+  return {
+    title: proposal.title || 'Untitled',
+    summary: proposal.summary || '',
+    url: proposal.url || '',
+    action: proposal.action?.[0],
+  };
+}
 
-  if (!action) {
-    console.log('');
-    console.log('⏭️  SKIPPED: Proposal has no action data');
-    console.log('');
-    setGitHubOutput('skipped', 'true');
-    setGitHubOutput('skip_reason', 'no_action_data');
-    process.exit(0);
+/**
+ * Find the last executed InstallCode proposal for the canister before this one
+ * and read the upgrade arguments its summary states. What it says is only a
+ * candidate: it counts for nothing unless it reproduces this proposal's arg hash.
+ */
+export async function findPreviousUpgrade(client: GovernanceClient, canisterId: string, proposalId: string, pages = PREVIOUS_UPGRADE_PAGES): Promise<PreviousUpgrade | null> {
+  let before = BigInt(proposalId);
+  for (let page = 0; page < pages; page++) {
+    const response = await client.listProposals({
+      include_reward_status: [],
+      omit_large_fields: [true],
+      before_proposal: [{ id: before }],
+      limit: 100,
+      exclude_topic: [],
+      include_all_manage_neuron_proposals: [false],
+      include_status: [],
+    });
+    const proposals: any[] = response.proposal_info;
+    if (proposals.length === 0) {
+      return null;
+    }
+
+    const previous = proposals.find(p => Number(p.status) === PROPOSAL_STATUS_EXECUTED
+      && p.proposal?.[0]?.action?.[0]?.InstallCode?.canister_id?.[0]?.toText() === canisterId);
+    if (previous) {
+      const id: bigint = previous.id[0].id;
+      const { summary, action } = await fetchNnsProposal(client, id.toString());
+      const argHash = action?.InstallCode?.arg_hash?.[0];
+      return {
+        proposalId: id.toString(),
+        title: previous.proposal[0].title?.[0] || 'Untitled',
+        argHash: argHash ? bytesToHex(argHash) : null,
+        ...extractUpgradeArgsByRules(summary),
+      };
+    }
+    before = proposals[proposals.length - 1].id[0].id;
   }
+  return null;
+}
 
-  if (!action.InstallCode) {
-    // Determine the action type for logging
-    const actionType = Object.keys(action)[0] || 'Unknown';
-    console.log('');
-    console.log('═══════════════════════════════════════════════════════════════');
-    console.log('  ⏭️  SKIPPED: NOT A CODE UPGRADE PROPOSAL');
-    console.log('═══════════════════════════════════════════════════════════════');
-    console.log('');
-    console.log(`  Proposal ID:   ${proposalId}`);
-    console.log(`  Title:         ${title}`);
-    console.log(`  Action Type:   ${actionType}`);
-    console.log('');
-    console.log('  This proposal does not install code, so there is no WASM to verify.');
-    console.log('  Only InstallCode proposals require build verification.');
-    console.log('');
-    setGitHubOutput('skipped', 'true');
-    setGitHubOutput('skip_reason', actionType);
-    process.exit(0);
+export type FetchResult =
+  | { status: 'fetched'; proposalData: ProposalData; hashSource: string }
+  | { status: 'skipped'; title: string; skipReason: string }
+  | { status: 'disagreement'; disagreements: HostDisagreement[] };
+
+export interface FetchOptions {
+  proposalId: string;
+  // One client per API boundary host; every host must return the same data
+  clients: Record<string, GovernanceClient>;
+  governanceCanisterId: string;
+  sns: boolean;
+  fetchMethod: FetchMethod;
+  // Name of the network the clients talk to, recorded in proposal.json
+  network: string;
+}
+
+/**
+ * Fetch a proposal from every host, cross-check the responses and decode the
+ * code-shipping action into ProposalData. Non-code proposals are reported as
+ * skipped; unreadable ones throw.
+ */
+export async function fetchProposalData(options: FetchOptions): Promise<FetchResult> {
+  const { proposalId, clients, governanceCanisterId, sns, fetchMethod, network } = options;
+  const hosts = Object.keys(clients);
+
+  // Fetch from every host so a single lying or stale boundary node can't go unnoticed
+  const responses: Record<string, FetchedProposal> = {};
+  for (const host of hosts) {
+    responses[host] = sns
+      ? await fetchSnsProposal(clients[host], proposalId)
+      : await fetchNnsProposal(clients[host], proposalId);
   }
 
-  // Extract wasm_module_hash and arg_hash directly from InstallCode action
-  let expectedWasmHash: string | null = null;
-  let expectedArgHash: string | null = null;
-  let canisterId: string | null = null;
+  const disagreements = findDisagreements(responses);
+  if (disagreements.length > 0) {
+    return { status: 'disagreement', disagreements };
+  }
 
-  const installCode = action.InstallCode;
+  const { title, summary, url, action } = responses[hosts[0]];
 
-  // Extract wasm_module_hash from bytes
-  if (installCode.wasm_module_hash?.[0]) {
-    expectedWasmHash = bytesToHex(installCode.wasm_module_hash[0]);
+  // Check if this is a code-shipping action (InstallCode, an ExecuteNnsFunction
+  // that carries a WASM, or an SNS UpgradeSnsControlledCanister). Other action
+  // types don't have code to verify
+  if (!action) {
+    return { status: 'skipped', title, skipReason: 'no_action_data' };
   }
 
-  // Extract arg_hash from bytes (upgrade arguments hash)
-  if (installCode.arg_hash?.[0]) {
-    expectedArgHash = bytesToHex(installCode.arg_hash[0]);
+  const actionType = Object.keys(action)[0] || 'Unknown';
+  const nnsFunction = action.ExecuteNnsFunction ? Number(action.ExecuteNnsFunction.nns_function) : null;
+  const isCodeAction = !!action.InstallCode
+    || !!action.UpgradeSnsControlledCanister
+    || (nnsFunction !== null && isSupportedNnsFunction(nnsFunction));
+
+  if (!isCodeAction) {
+    // Name the NNS function too, since most ExecuteNnsFunction calls don't ship code
+    const skipReason = nnsFunction !== null ? `${actionType}:${nnsFunctionName(nnsFunction)}` : actionType;
+    return { status: 'skipped', title, skipReason };
   }
 
-  // Extract canister_id
-  if (installCode.canister_id?.[0]) {
-    canisterId = installCode.canister_id[0].toText();
+  let expectedWasmHash: string | null = null;
+  let expectedArgHash: string | null = null;
+  let canisterId: string | null = null;
+  let installMode: InstallMode | null = null;
+  let skipStoppingBeforeInstalling: boolean | null = null;
+  let hashSource: string;
+
+  if (action.InstallCode) {
+    // Extract wasm_module_hash and arg_hash directly from InstallCode action
+    const installCode = action.InstallCode;
+    hashSource = 'proposal.action.InstallCode';
+
+    // Extract wasm_module_hash from bytes
+    if (installCode.wasm_module_hash?.[0]) {
+      expectedWasmHash = bytesToHex(installCode.wasm_module_hash[0]);
+    }
+
+    // Extract arg_hash from bytes (upgrade arguments hash)
+    if (installCode.arg_hash?.[0]) {
+      expectedArgHash = bytesToHex(installCode.arg_hash[0]);
+    }
+
+    // Extract canister_id
+    if (installCode.canister_id?.[0]) {
+      canisterId = installCode.canister_id[0].toText();
+    }
+
+    installMode = installModeFromCode(installCode.install_mode?.[0]) ?? 'unspecified';
+    skipStoppingBeforeInstalling = installCode.skip_stopping_before_installing?.[0] ?? false;
+  } else if (action.UpgradeSnsControlledCanister) {
+    const upgrade = extractSnsUpgradeHashes(action.UpgradeSnsControlledCanister);
+    hashSource = upgrade.chunked
+      ? 'proposal.action.UpgradeSnsControlledCanister.chunked_canister_wasm.wasm_module_hash'
+      : 'sha256 of proposal.action.UpgradeSnsControlledCanister.new_canister_wasm';
+
+    expectedWasmHash = upgrade.wasmHash;
+    expectedArgHash = upgrade.argHash;
+    canisterId = upgrade.canisterId;
+    installMode = upgrade.installMode;
+  } else {
+    // ExecuteNnsFunction embeds the whole WASM in its Candid payload, so we hash it ourselves
+    const decoded = decodeNnsFunctionPayload(nnsFunction!, action.ExecuteNnsFunction.payload);
+    if (!decoded) {
+      throw new Error(`Could not decode payload for NNS function ${nnsFunctionName(nnsFunction!)}`);
+    }
+    hashSource = `sha256 of WASM in proposal.action.ExecuteNnsFunction.payload (${decoded.nnsFunctionName})`;
+
+    if (decoded.declaredWasmHash && decoded.declaredWasmHash !== decoded.wasmHash) {
+      throw new Error(
+        'WASM hash declared in payload does not match the embedded WASM\n'
+        + `  Declared: ${decoded.declaredWasmHash}\n`
+        + `  Computed: ${decoded.wasmHash}`
+      );
+    }
+
+    expectedWasmHash = decoded.wasmHash;
+    expectedArgHash = decoded.argHash;
+    canisterId = decoded.canisterId;
+    installMode = decoded.installMode;
+    skipStoppingBeforeInstalling = decoded.skipStoppingBeforeInstalling;
   }
 
-  // Extract commit hash from summary text
-  const combinedText = `${title}\n${summary}\n${url}`;
-  const commitHash = extractCommitHash(combinedText);
+  // Extract and rank commit hashes from the proposal text
+  const { commitHash, candidates: commitCandidates, ambiguous: commitAmbiguous } = extractCommitCandidates(title, summary, url);
+  const summaryHashes = checkStatedHashes(summary, expectedWasmHash, expectedArgHash);
+
+  // Only needed to recover arguments the summary doesn't state. Looked up from
+  // one host only; the arg hash vouches for whatever it turns up
+  let previousUpgrade: PreviousUpgrade | null = null;
+  if (expectedArgHash && canisterId && !sns && !extractUpgradeArgsByRules(summary).upgradeArgs) {
+    try {
+      previousUpgrade = await findPreviousUpgrade(clients[hosts[0]], canisterId, proposalId);
+    } catch (err) {
+      console.warn(`Could not look up the previous upgrade of ${canisterId}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
 
   const proposalData: ProposalData = {
     proposalId,
     title,
     summary,
     url,
+    network,
+    governanceCanisterId,
+    actionType: actionType as ProposalData['actionType'],
+    nnsFunction,
     commitHash,
+    commitCandidates,
+    commitAmbiguous,
     expectedWasmHash,
     expectedArgHash,
+    summaryHashes,
     canisterId,
+    installMode,
+    skipStoppingBeforeInstalling,
+    isProtocolCanister: !sns,
+    fetchMethod,
+    hosts,
+    previousUpgrade,
   };
 
+  return { status: 'fetched', proposalData, hashSource };
+}
+
+interface FetchArgs {
+  proposalId: string | undefined;
+  snsGovernanceCanisterId: string | null;
+  fetchMethod: FetchMethod;
+  network: NetworkOverrides;
+  recordDir: string | null;
+  replayDir: string | null;
+}
+
+function parseArgs(argv: string[]): FetchArgs {
+  const { overrides: network, rest: args } = parseNetworkArgs(argv);
+  let proposalId: string | undefined;
+  let snsGovernanceCanisterId: string | null = null;
+  let fetchMethod: FetchMethod = 'update';
+  let recordDir = process.env.GOVERNANCE_RECORD_DIR || null;
+  let replayDir = process.env.GOVERNANCE_REPLAY_DIR || null;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--sns') {
+      snsGovernanceCanisterId = args[++i] || null;
+    } else if (args[i] === '--query') {
+      fetchMethod = 'query';
+    } else if (args[i] === '--record') {
+      recordDir = args[++i] || null;
+    } else if (args[i] === '--replay') {
+      replayDir = args[++i] || null;
+    } else {
+      proposalId = args[i];
+    }
+  }
+
+  return { proposalId, snsGovernanceCanisterId, fetchMethod, network, recordDir, replayDir };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const { proposalId, snsGovernanceCanisterId, fetchMethod, recordDir, replayDir } = args;
+
+  if (!proposalId) {
+    console.error('Usage: tsx fetch-proposal.ts <proposal_id> [--sns <sns_governance_canister_id>] [--query] [--record <dir> | --replay <dir>]');
+    console.error('       [--network <name>] [--network-config <path>] [--hosts <host,...>] [--governance-canister <id>] [--fetch-root-key]');
+    process.exit(1);
+  }
+
+  const network = resolveNetworkConfig(args.network);
+  const { hosts, fetchRootKey } = network;
+  const governanceCanisterId = snsGovernanceCanisterId || network.nnsGovernanceCanisterId;
+  const governanceName = snsGovernanceCanisterId ? 'SNS' : 'NNS';
+
+  console.log('');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log(`  STEP 1: FETCH PROPOSAL FROM ${governanceName} GOVERNANCE (ONCHAIN)`);
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('');
+  if (replayDir) {
+    console.log(`WARNING: Replaying recorded responses from ${replayDir}.`);
+    console.log('Nothing is fetched from the IC; use this only for tests and rehearsals.');
+  } else if (fetchMethod === 'update') {
+    console.log(`TRUST ASSUMPTION: Calling the ${governanceName} Governance canister with an`);
+    console.log('update call. The response is certified by the subnet (threshold signature),');
+    console.log('not just signed by the single replica that answered.');
+  } else {
+    console.log(`TRUST ASSUMPTION: Querying the ${governanceName} Governance canister directly.`);
+    console.log('WARNING: Query responses are signed by a single replica and are NOT');
+    console.log('certified by the subnet.');
+  }
+  if (fetchRootKey) {
+    console.log('WARNING: The root key is fetched from the replica rather than pinned, so');
+    console.log('certificates only prove consistency with that replica. Use for local');
+    console.log('replicas and testnets only.');
+  }
+  console.log('');
+  console.log(`Proposal ID: ${proposalId}`);
+  console.log(`Network: ${network.name}`);
+  console.log(`Governance Canister: ${governanceCanisterId}`);
+  console.log(`Fetch method: ${fetchMethod}`);
+  console.log(`IC Endpoints: ${hosts.join(', ')}`);
+  console.log('');
+
+  const clients: Record<string, GovernanceClient> = {};
+  for (const host of hosts) {
+    clients[host] = createGovernanceClient({
+      host,
+      canisterId: governanceCanisterId,
+      fetchMethod,
+      fetchRootKey,
+      recordDir,
+      replayDir,
+    });
+  }
+
+  const result = await fetchProposalData({
+    proposalId,
+    clients,
+    governanceCanisterId,
+    sns: !!snsGovernanceCanisterId,
+    fetchMethod,
+    network: network.name,
+  });
+
+  if (result.status === 'disagreement') {
+    console.error('');
+    console.error('═══════════════════════════════════════════════════════════════');
+    console.error('  ❌ ENDPOINTS DISAGREE ON PROPOSAL DATA');
+    console.error('═══════════════════════════════════════════════════════════════');
+    for (const { field, values } of result.disagreements) {
+      console.error(`  Field: ${field}`);
+      for (const [host, value] of Object.entries(values)) {
+        console.error(`    ${host}: ${value.length > 120 ? value.slice(0, 120) + '…' : value}`);
+      }
+    }
+    console.error('');
+    process.exit(1);
+  }
+
+  if (hosts.length > 1) {
+    console.log(`All ${hosts.length} endpoints returned identical proposal data.`);
+    console.log('');
+  }
+
+  if (result.status === 'skipped') {
+    if (result.skipReason === 'no_action_data') {
+      console.log('');
+      console.log('⏭️  SKIPPED: Proposal has no action data');
+      console.log('');
+    } else {
+      console.log('');
+      console.log('═══════════════════════════════════════════════════════════════');
+      console.log('  ⏭️  SKIPPED: NOT A CODE UPGRADE PROPOSAL');
+      console.log('═══════════════════════════════════════════════════════════════');
+      console.log('');
+      console.log(`  Proposal ID:   ${proposalId}`);
+      console.log(`  Title:         ${result.title}`);
+      console.log(`  Action Type:   ${result.skipReason}`);
+      console.log('');
+      console.log('  This proposal does not install code, so there is no WASM to verify.');
+      console.log('  Only InstallCode, code-shipping ExecuteNnsFunction and');
+      console.log('  UpgradeSnsControlledCanister proposals require build verification.');
+      console.log('');
+    }
+    setGitHubOutput('skipped', 'true');
+    setGitHubOutput('skip_reason', result.skipReason);
+    process.exit(0);
+  }
+
+  const { proposalData, hashSource } = result;
+  const { title, actionType, nnsFunction, canisterId, commitHash, expectedWasmHash, expectedArgHash } = proposalData;
+  const { installMode, skipStoppingBeforeInstalling, isProtocolCanister } = proposalData;
+  const warnings = installModeWarnings(installMode, skipStoppingBeforeInstalling, isProtocolCanister);
+
+  if (warnings.some(w => w.severity === 'critical')) {
+    console.log('');
+    console.log('!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!');
+    console.log('  🚨 DANGER: THIS PROPOSAL REINSTALLS A PROTOCOL CANISTER');
+    console.log('!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!');
+    console.log('');
+  }
+
   console.log('PROPOSAL DATA RETRIEVED:');
   console.log('─────────────────────────────────────────────────────────────────');
   console.log(`  Title:             ${title}`);
+  console.log(`  Action:            ${nnsFunction !== null ? `${actionType} (${nnsFunctionName(nnsFunction)})` : actionType}`);
   console.log(`  Target Canister:   ${canisterId || 'Not found'}`);
-  console.log(`  Source Commit:     ${commitHash || 'Not found'}`);
+  console.log(`  Install Mode:      ${installModeLabel(installMode)}`);
+  console.log(`  Skip Stopping:     ${skipStoppingBeforeInstalling === null ? 'n/a' : skipStoppingBeforeInstalling ? 'YES' : 'no'}`);
+  console.log(`  Source Commit:     ${commitHash || 'Not found'}${proposalData.commitAmbiguous ? ' (AMBIGUOUS)' : ''}`);
   console.log('');
-  console.log('ONCHAIN WASM HASH (from proposal.action.InstallCode.wasm_module_hash):');
+  if (proposalData.commitCandidates.length > 1) {
+    console.log('  Commit candidates (best first):');
+    for (const candidate of proposalData.commitCandidates) {
+      console.log(`    ${candidate.hash}  score ${candidate.score}  (${candidate.reasons.join('; ') || 'no signals'})`);
+    }
+    console.log('');
+  }
+  for (const warning of warnings) {
+    console.log(`  ${warningIcon(warning.severity)} ${warning.message}`);
+  }
+  if (warnings.length > 0) {
+    console.log('');
+  }
+  console.log(`ONCHAIN WASM HASH (from ${hashSource}):`);
   console.log(`  ${expectedWasmHash || 'Not found'}`);
   console.log('');
-  console.log('ONCHAIN ARG HASH (from proposal.action.InstallCode.arg_hash):');
+  console.log(`ONCHAIN ARG HASH (from ${hashSource}):`);
   console.log(`  ${expectedArgHash || 'Not found (no upgrade arguments)'}`);
   console.log('');
   console.log('These hashes were extracted directly from the onchain proposal payload,');
   console.log('not from the human-readable summary text.');
+  const { summaryHashes } = proposalData;
+  if (summaryHashes.stated.length > 0) {
+    console.log('');
+    console.log('HASHES STATED IN THE SUMMARY:');
+    for (const stated of summaryHashes.stated) {
+      const mismatch = summaryHashes.mismatches.some(m => m.hash === stated.hash);
+      console.log(`  ${mismatch ? '❌' : ' '} ${stated.hash}  ${stated.kind} (${stated.reason})`);
+    }
+  }
+  if (proposalData.previousUpgrade) {
+    const previous = proposalData.previousUpgrade;
+    console.log('');
+    console.log(`PREVIOUS UPGRADE: #${previous.proposalId} ${previous.title}`);
+    console.log(`  Arg hash: ${previous.argHash || 'none'}${previous.argHash === expectedArgHash ? ' (same as this proposal)' : ''}`);
+    console.log(`  Args:     ${previous.upgradeArgs || 'not stated in its summary'}`);
+  }
   console.log('─────────────────────────────────────────────────────────────────');
 
   if (!commitHash) {
     console.warn('Warning: Could not extract commit hash from proposal');
   }
 
+  if (proposalData.commitAmbiguous) {
+    console.warn('Warning: The top commit candidates cannot be told apart; building the');
+    console.warn('highest ranked one, but the verification will be marked ambiguous.');
+    setGitHubOutput('commit_ambiguous', 'true');
+  }
+
+  if (summaryHashes.mismatches.length > 0) {
+    console.warn('Warning: The summary states a hash that differs from the onchain payload.');
+    console.warn('Voters reading the text would be misled even if the build matches.');
+    setGitHubOutput('summary_hash_mismatch', 'true');
+  }
+
   if (!expectedWasmHash) {
     console.error('Error: Could not extract wasm_module_hash from proposal action');
     process.exit(1);
@@ -217,7 +547,11 @@ async function main() {
   console.log('Wrote proposal.json');
 }
 
-main().catch((err) => {
-  console.error('Error fetching proposal:', err);
-  process.exit(1);
-});
+// Only run main if this is the entry point
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch((err) => {
+    console.error('Error fetching proposal:', err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,248 @@
+import { HttpAgent, Actor } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { FetchMethod, methodAnnotations } from './cross-check.js';
+import { snsGovernanceIdl } from './sns-governance.js';
+
+export interface ListProposalsRequest {
+  include_reward_status: number[];
+  omit_large_fields: [] | [boolean];
+  before_proposal: [] | [{ id: bigint }];
+  limit: number;
+  exclude_topic: number[];
+  include_all_manage_neuron_proposals: [] | [boolean];
+  include_status: number[];
+}
+
+/**
+ * The governance canister methods the verifier calls. Responses are the
+ * decoded Candid values exactly as the agent returns them, so the fetch and
+ * monitor logic can run against live canisters or recorded fixtures alike.
+ */
+export interface GovernanceClient {
+  // NNS get_proposal_info: returns opt ProposalInfo ([] or [info])
+  getProposalInfo(proposalId: bigint): Promise<any>;
+  // NNS list_proposals
+  listProposals(request: ListProposalsRequest): Promise<any>;
+  // SNS get_proposal: returns GetProposalResponse
+  getSnsProposal(proposalId: bigint): Promise<any>;
+}
+
+// IDL for the NNS governance methods used by the fetcher and monitor
+export const nnsGovernanceIdl = (fetchMethod: FetchMethod) => ({ IDL }: { IDL: any }) => {
+  const InstallCode = IDL.Record({
+    skip_stopping_before_installing: IDL.Opt(IDL.Bool),
+    wasm_module_hash: IDL.Opt(IDL.Vec(IDL.Nat8)),
+    canister_id: IDL.Opt(IDL.Principal),
+    arg_hash: IDL.Opt(IDL.Vec(IDL.Nat8)),
+    install_mode: IDL.Opt(IDL.Int32),
+  });
+
+  const ExecuteNnsFunction = IDL.Record({
+    nns_function: IDL.Int32,
+    payload: IDL.Vec(IDL.Nat8),
+  });
+
+  // Minimal record for other action types (we only need to detect them, not process them)
+  const UpdateCanisterSettings = IDL.Record({
+    canister_id: IDL.Opt(IDL.Principal),
+    settings: IDL.Opt(IDL.Record({})),
+  });
+
+  const ProposalInfo = IDL.Record({
+    id: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
+    proposer: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
+    proposal: IDL.Opt(IDL.Record({
+      title: IDL.Opt(IDL.Text),
+      summary: IDL.Text,
+      url: IDL.Text,
+      action: IDL.Opt(IDL.Variant({
+        InstallCode: InstallCode,
+        ExecuteNnsFunction: ExecuteNnsFunction,
+        UpdateCanisterSettings: UpdateCanisterSettings,
+        // Other action types will be captured as unknown variants
+      })),
+    })),
+    status: IDL.Int32,
+    executed_timestamp_seconds: IDL.Nat64,
+  });
+
+  const ListProposalInfo = IDL.Record({
+    id: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
+    proposer: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
+    proposal: IDL.Opt(IDL.Record({
+      title: IDL.Opt(IDL.Text),
+      summary: IDL.Text,
+      url: IDL.Text,
+      action: IDL.Opt(IDL.Variant({
+        InstallCode: IDL.Record({
+          wasm_module_hash: IDL.Opt(IDL.Vec(IDL.Nat8)),
+          canister_id: IDL.Opt(IDL.Principal),
+        }),
+      })),
+    })),
+    topic: IDL.Int32,
+    status: IDL.Int32,
+  });
+
+  const ListProposalInfoResponse = IDL.Record({
+    proposal_info: IDL.Vec(ListProposalInfo),
+  });
+
+  return IDL.Service({
+    get_proposal_info: IDL.Func([IDL.Nat64], [IDL.Opt(ProposalInfo)], methodAnnotations(fetchMethod)),
+    list_proposals: IDL.Func(
+      [IDL.Record({
+        include_reward_status: IDL.Vec(IDL.Int32),
+        omit_large_fields: IDL.Opt(IDL.Bool),
+        before_proposal: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
+        limit: IDL.Nat32,
+        exclude_topic: IDL.Vec(IDL.Int32),
+        include_all_manage_neuron_proposals: IDL.Opt(IDL.Bool),
+        include_status: IDL.Vec(IDL.Int32),
+      })],
+      [ListProposalInfoResponse],
+      // Listing is only used to discover proposals; each one is re-fetched certified
+      ['query']
+    ),
+  });
+};
+
+export class LiveGovernanceClient implements GovernanceClient {
+  private readonly agent: HttpAgent;
+  private readonly canisterId: Principal;
+  private readonly fetchMethod: FetchMethod;
+
+  constructor(host: string, canisterId: string, fetchMethod: FetchMethod = 'update', fetchRootKey: boolean = false) {
+    // With shouldFetchRootKey the agent fetches the replica's root key before its first call
+    this.agent = new HttpAgent({ host, shouldFetchRootKey: fetchRootKey });
+    this.canisterId = Principal.fromText(canisterId);
+    this.fetchMethod = fetchMethod;
+  }
+
+  private nns(): any {
+    return Actor.createActor(nnsGovernanceIdl(this.fetchMethod), { agent: this.agent, canisterId: this.canisterId });
+  }
+
+  async getProposalInfo(proposalId: bigint): Promise<any> {
+    return this.nns().get_proposal_info(proposalId);
+  }
+
+  async listProposals(request: ListProposalsRequest): Promise<any> {
+    return this.nns().list_proposals(request);
+  }
+
+  async getSnsProposal(proposalId: bigint): Promise<any> {
+    const sns = Actor.createActor(snsGovernanceIdl(this.fetchMethod), { agent: this.agent, canisterId: this.canisterId });
+    return sns.get_proposal({ proposal_id: [{ id: proposalId }] });
+  }
+}
+
+// Fixtures are JSON with tagged values for the Candid types JSON can't hold
+export function serializeFixture(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (typeof v === 'bigint') {
+      return { __bigint__: v.toString() };
+    }
+    if (v instanceof Uint8Array) {
+      return { __bytes__: Buffer.from(v).toString('hex') };
+    }
+    return v;
+  }, 2);
+}
+
+export function deserializeFixture(json: string): any {
+  return JSON.parse(json, (_key, v) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      if ('__bigint__' in v) return BigInt(v.__bigint__);
+      if ('__bytes__' in v) return Uint8Array.from(Buffer.from(v.__bytes__, 'hex'));
+      if ('__principal__' in v) return Principal.fromText(v.__principal__);
+    }
+    return v;
+  });
+}
+
+function listProposalsKey(request: ListProposalsRequest): string {
+  const before = request.before_proposal[0];
+  return before ? `limit-${request.limit}-before-${before.id}` : `limit-${request.limit}`;
+}
+
+function fixturePath(dir: string, method: string, key: string): string {
+  return join(dir, method, `${key}.json`);
+}
+
+/**
+ * Replays responses recorded by RecordingGovernanceClient. Never touches the
+ * network; a missing fixture is an error rather than a fallback.
+ */
+export class FixtureGovernanceClient implements GovernanceClient {
+  constructor(private readonly dir: string) {}
+
+  private read(method: string, key: string): any {
+    const path = fixturePath(this.dir, method, key);
+    if (!existsSync(path)) {
+      throw new Error(`No recorded fixture for ${method}(${key}) at ${path}`);
+    }
+    return deserializeFixture(readFileSync(path, 'utf-8'));
+  }
+
+  async getProposalInfo(proposalId: bigint): Promise<any> {
+    return this.read('get_proposal_info', proposalId.toString());
+  }
+
+  async listProposals(request: ListProposalsRequest): Promise<any> {
+    return this.read('list_proposals', listProposalsKey(request));
+  }
+
+  async getSnsProposal(proposalId: bigint): Promise<any> {
+    return this.read('get_proposal', proposalId.toString());
+  }
+}
+
+// Passes calls through to another client and writes each response as a fixture
+export class RecordingGovernanceClient implements GovernanceClient {
+  constructor(private readonly inner: GovernanceClient, private readonly dir: string) {}
+
+  private write(method: string, key: string, response: unknown): void {
+    const path = fixturePath(this.dir, method, key);
+    mkdirSync(join(this.dir, method), { recursive: true });
+    writeFileSync(path, serializeFixture(response) + '\n');
+    console.log(`Recorded ${method} fixture: ${path}`);
+  }
+
+  async getProposalInfo(proposalId: bigint): Promise<any> {
+    const response = await this.inner.getProposalInfo(proposalId);
+    this.write('get_proposal_info', proposalId.toString(), response);
+    return response;
+  }
+
+  async listProposals(request: ListProposalsRequest): Promise<any> {
+    const response = await this.inner.listProposals(request);
+    this.write('list_proposals', listProposalsKey(request), response);
+    return response;
+  }
+
+  async getSnsProposal(proposalId: bigint): Promise<any> {
+    const response = await this.inner.getSnsProposal(proposalId);
+    this.write('get_proposal', proposalId.toString(), response);
+    return response;
+  }
+}
+
+export interface ClientOptions {
+  host: string;
+  canisterId: string;
+  fetchMethod?: FetchMethod;
+  fetchRootKey?: boolean;
+  recordDir?: string | null;
+  replayDir?: string | null;
+}
+
+export function createGovernanceClient(options: ClientOptions): GovernanceClient {
+  if (options.replayDir) {
+    return new FixtureGovernanceClient(options.replayDir);
+  }
+  const live = new LiveGovernanceClient(options.host, options.canisterId, options.fetchMethod, options.fetchRootKey);
+  return options.recordDir ? new RecordingGovernanceClient(live, options.recordDir) : live;
+}
@@ -0,0 +1,74 @@
+// Named form of the CanisterInstallMode carried by InstallCode and SNS upgrades
+export type InstallMode = 'install' | 'reinstall' | 'upgrade' | 'unspecified';
+
+// Numbering of the CanisterInstallMode enum in NNS and SNS governance
+const INSTALL_MODE_CODES: Record<number, InstallMode> = {
+  0: 'unspecified',
+  1: 'install',
+  2: 'reinstall',
+  3: 'upgrade',
+};
+
+export function installModeFromCode(code: number | null | undefined): InstallMode | null {
+  if (code === null || code === undefined) {
+    return null;
+  }
+  return INSTALL_MODE_CODES[code] ?? 'unspecified';
+}
+
+// Decode a Candid `variant { install; reinstall; upgrade }` value
+export function installModeFromVariant(mode: Record<string, unknown> | null | undefined): InstallMode | null {
+  if (!mode) {
+    return null;
+  }
+  const key = Object.keys(mode)[0];
+  return key === 'install' || key === 'reinstall' || key === 'upgrade' ? key : 'unspecified';
+}
+
+export type InstallModeSeverity = 'critical' | 'warning' | 'info';
+
+export interface InstallModeWarning {
+  severity: InstallModeSeverity;
+  message: string;
+}
+
+/**
+ * Warnings voters should see before anything else. A reinstall wipes the
+ * canister's stable memory; on a protocol (NNS-controlled) canister that can
+ * mean losing ledger balances, neurons or registry records. A null install
+ * mode means the proposal installs nothing (e.g. AddSnsWasm) and gets none.
+ */
+export function installModeWarnings(
+  installMode: InstallMode | null,
+  skipStoppingBeforeInstalling: boolean | null,
+  isProtocolCanister: boolean
+): InstallModeWarning[] {
+  const warnings: InstallModeWarning[] = [];
+
+  if (installMode === 'reinstall') {
+    warnings.push(isProtocolCanister
+      ? { severity: 'critical', message: 'REINSTALL of a protocol canister: ALL canister state (including stable memory) will be WIPED.' }
+      : { severity: 'warning', message: 'Reinstall: all canister state (including stable memory) will be wiped.' });
+  } else if (installMode === 'install') {
+    warnings.push({ severity: 'info', message: 'Install: code is installed into an empty canister.' });
+  } else if (installMode === 'unspecified') {
+    warnings.push({ severity: 'warning', message: 'Install mode is not specified in the proposal payload.' });
+  }
+
+  if (skipStoppingBeforeInstalling) {
+    warnings.push({
+      severity: 'warning',
+      message: 'The canister is NOT stopped before installing; in-flight calls may observe the upgrade mid-way.',
+    });
+  }
+
+  return warnings;
+}
+
+export function warningIcon(severity: InstallModeSeverity): string {
+  return severity === 'critical' ? '🚨' : severity === 'warning' ? '⚠️' : 'ℹ️';
+}
+
+export function installModeLabel(installMode: InstallMode | null): string {
+  return installMode ? installMode.toUpperCase() : 'UNKNOWN';
+}
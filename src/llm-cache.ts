@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { JsonSchema, LlmProvider } from './llm-provider.js';
+
+export const DEFAULT_LLM_CACHE_DIR = 'llm-cache';
+
+// What the cache key is derived from, besides the model
+export interface LlmCacheContext {
+  promptTemplate: string;
+  title: string;
+  summary: string;
+  url: string;
+}
+
+// One raw LLM exchange, kept so the output behind a build-steps.json can be audited
+export interface LlmCacheEntry {
+  key: string;
+  provider: string;
+  promptTemplateSha256: string;
+  proposal: { title: string; summary: string; url: string };
+  prompt: string;
+  schema: JsonSchema | null;
+  response: string;
+  recordedAt: string;
+}
+
+export interface LlmCacheUse {
+  provider: string;
+  key: string;
+  hit: boolean;
+}
+
+// Thrown in replay mode when a prompt has no recorded response
+export class LlmCacheMissError extends Error {
+  constructor(readonly provider: string, readonly key: string, readonly dir: string) {
+    super(`No cached response from ${provider} for key ${key} in ${dir}; refusing to call the network in replay mode`);
+    this.name = 'LlmCacheMissError';
+  }
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Hash the prompt template, model and proposal text. The full prompt and
+ * schema are included too so re-prompts after a validation error get their
+ * own entries instead of replaying the first answer.
+ */
+export function llmCacheKey(context: LlmCacheContext, provider: string, prompt: string, schema?: JsonSchema): string {
+  return sha256(JSON.stringify({
+    promptTemplate: sha256(context.promptTemplate),
+    model: provider,
+    title: context.title,
+    summary: context.summary,
+    url: context.url,
+    prompt: sha256(prompt),
+    schema: schema ? sha256(JSON.stringify(schema)) : null,
+  }));
+}
+
+/**
+ * Serves responses from `<dir>/<key>.json` when present and records new ones.
+ * In replay mode a missing entry is an error rather than a network call.
+ */
+export class CachingLlmProvider implements LlmProvider {
+  readonly name: string;
+  readonly uses: LlmCacheUse[] = [];
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly dir: string,
+    private readonly context: LlmCacheContext,
+    private readonly replay: boolean
+  ) {
+    this.name = inner.name;
+  }
+
+  async generate(prompt: string, schema?: JsonSchema): Promise<string> {
+    const key = llmCacheKey(this.context, this.name, prompt, schema);
+    const path = join(this.dir, `${key}.json`);
+
+    if (existsSync(path)) {
+      const entry: LlmCacheEntry = JSON.parse(readFileSync(path, 'utf-8'));
+      this.uses.push({ provider: this.name, key, hit: true });
+      return entry.response;
+    }
+
+    if (this.replay) {
+      throw new LlmCacheMissError(this.name, key, this.dir);
+    }
+
+    const response = await this.inner.generate(prompt, schema);
+    const entry: LlmCacheEntry = {
+      key,
+      provider: this.name,
+      promptTemplateSha256: sha256(this.context.promptTemplate),
+      proposal: { title: this.context.title, summary: this.context.summary, url: this.context.url },
+      prompt,
+      schema: schema ?? null,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(path, JSON.stringify(entry, null, 2) + '\n');
+    this.uses.push({ provider: this.name, key, hit: false });
+    return response;
+  }
+}
@@ -0,0 +1,72 @@
+import { HostDisagreement, canonicalize, findDisagreements } from './cross-check.js';
+import { LlmProvider } from './llm-provider.js';
+import { ExtractedBuildFields, normalizeExtraction } from './rule-extractor.js';
+
+export interface ProviderExtraction {
+  provider: string;
+  fields: ExtractedBuildFields | null;
+  // Set when the provider failed or its response couldn't be parsed
+  error: string | null;
+}
+
+export type ConsensusResult =
+  | {
+      status: 'agreed';
+      fields: ExtractedBuildFields;
+      quorum: number;
+      agreeing: string[];
+      dissenting: string[];
+      failed: ProviderExtraction[];
+    }
+  | {
+      status: 'disagreement';
+      quorum: number;
+      // Keyed by provider name; only providers that returned a result appear
+      disagreements: HostDisagreement[];
+      failed: ProviderExtraction[];
+    };
+
+// Run the extraction against every provider; one provider failing doesn't stop the others
+export async function collectExtractions(
+  providers: LlmProvider[],
+  extract: (provider: LlmProvider) => Promise<ExtractedBuildFields>
+): Promise<ProviderExtraction[]> {
+  return Promise.all(providers.map(async provider => {
+    try {
+      return { provider: provider.name, fields: await extract(provider), error: null };
+    } catch (err) {
+      return { provider: provider.name, fields: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }));
+}
+
+/**
+ * Accept the extraction that at least `quorum` providers agree on after
+ * normalization. Otherwise report which fields the providers disagree on.
+ */
+export function reachConsensus(extractions: ProviderExtraction[], quorum: number): ConsensusResult {
+  const succeeded = extractions.filter(e => e.fields !== null);
+  const failed = extractions.filter(e => e.fields === null);
+
+  const groups = new Map<string, ProviderExtraction[]>();
+  for (const extraction of succeeded) {
+    const key = canonicalize(normalizeExtraction(extraction.fields!));
+    groups.set(key, [...(groups.get(key) ?? []), extraction]);
+  }
+
+  // Largest group first; ties keep provider order
+  const [largest] = [...groups.values()].sort((a, b) => b.length - a.length);
+  if (largest && largest.length >= quorum) {
+    return {
+      status: 'agreed',
+      fields: largest[0].fields!,
+      quorum,
+      agreeing: largest.map(e => e.provider),
+      dissenting: succeeded.filter(e => !largest.includes(e)).map(e => e.provider),
+      failed,
+    };
+  }
+
+  const normalized = Object.fromEntries(succeeded.map(e => [e.provider, normalizeExtraction(e.fields!)]));
+  return { status: 'disagreement', quorum, disagreements: findDisagreements(normalized), failed };
+}
@@ -0,0 +1,235 @@
+import { JsonSchema, LlmProvider } from './llm-provider.js';
+import { ExtractedBuildFields, normalizeGitRemote } from './rule-extractor.js';
+import { parseShellStep } from './validate-build-steps.js';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Formal schema for the LLM's answer; providers that support it enforce it while decoding
+export const BUILD_STEPS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    repoUrl: { type: 'string', description: 'HTTPS URL of the source repository, e.g. https://github.com/dfinity/ic' },
+    steps: { type: 'array', items: { type: 'string' }, description: 'Build commands only, no git or cd commands' },
+    wasmOutputPath: { type: 'string', description: 'Path of the built WASM relative to the repository root' },
+    upgradeArgs: { type: ['string', 'null'], description: 'Candid upgrade arguments, e.g. (record {allowlist = null})' },
+    upgradeArgsDid: { type: ['string', 'null'], description: 'The .did file passed to didc encode -d' },
+    upgradeArgsType: { type: ['string', 'null'], description: 'The type passed to didc encode -t' },
+  },
+  required: ['repoUrl', 'steps', 'wasmOutputPath', 'upgradeArgs', 'upgradeArgsDid', 'upgradeArgsType'],
+  additionalProperties: false,
+};
+
+// Thrown when a provider keeps answering with output that fails validation
+export class LlmExtractionError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly attempts: number,
+    readonly errors: string[]
+  ) {
+    super(`${provider} gave no valid build steps after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'LlmExtractionError';
+  }
+}
+
+/**
+ * Check that brackets balance outside string literals, so a truncated or
+ * mangled Candid value is caught before it is encoded.
+ */
+export function isBalancedCandid(text: string): boolean {
+  const closing: Record<string, string> = { ')': '(', '}': '{', ']': '[' };
+  const stack: string[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') {
+          i++;
+        }
+      }
+      if (i >= text.length) {
+        return false;
+      }
+    } else if (ch === '(' || ch === '{' || ch === '[') {
+      stack.push(ch);
+    } else if (ch in closing) {
+      if (stack.pop() !== closing[ch]) {
+        return false;
+      }
+    }
+  }
+  return stack.length === 0;
+}
+
+function isRelativePath(path: string): boolean {
+  return !path.startsWith('/') && !path.startsWith('~') && !path.split('/').includes('..');
+}
+
+function validateRepoUrl(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return 'repoUrl must be a string';
+  }
+  const url = normalizeGitRemote(value).replace(/\/(tree|commit)\/[a-f0-9]+$/, '');
+  const match = url.match(/^https:\/\/[\w.-]+\.[a-z]{2,}\/([\w.-]+)\/([\w.-]+)$/);
+  if (!match) {
+    return `repoUrl "${value}" is not an https://<host>/<owner>/<repo> URL`;
+  }
+  // The placeholder from the prompt's example
+  if (match[1] === 'org' && match[2] === 'repo') {
+    return `repoUrl "${value}" is the example placeholder, not the proposal's repository`;
+  }
+  return null;
+}
+
+function validateSteps(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return ['steps must be a non-empty array of commands'];
+  }
+  const errors: string[] = [];
+  value.forEach((step, i) => {
+    if (typeof step !== 'string' || !step.trim()) {
+      errors.push(`steps[${i}] must be a non-empty string`);
+      return;
+    }
+    let names: string[];
+    try {
+      names = parseShellStep(step).map(c => c.words[0]);
+    } catch {
+      names = step.split(/&&|\|\||;|\|/).map(part => part.trim().split(/\s+/)[0]);
+    }
+    if (names.includes('git')) {
+      errors.push(`steps[${i}] "${step}" runs git; the verifier checks out the commit itself`);
+    }
+  });
+  return errors;
+}
+
+function validateOptionalString(value: unknown, field: string, check?: (v: string) => string | null): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return `${field} must be a string or null`;
+  }
+  return check ? check(value) : null;
+}
+
+/**
+ * Validate a parsed LLM answer field by field. Returns every problem found
+ * so they can all be sent back to the model at once.
+ */
+export function validateExtractedFields(value: unknown): { fields: ExtractedBuildFields | null; errors: string[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { fields: null, errors: ['response must be a JSON object'] };
+  }
+  const v = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const repoError = validateRepoUrl(v.repoUrl);
+  if (repoError) errors.push(repoError);
+
+  errors.push(...validateSteps(v.steps));
+
+  if (typeof v.wasmOutputPath !== 'string') {
+    errors.push('wasmOutputPath must be a string');
+  } else if (!isRelativePath(v.wasmOutputPath) || !/\.wasm(\.gz)?$/.test(v.wasmOutputPath)) {
+    errors.push(`wasmOutputPath "${v.wasmOutputPath}" must be a relative path ending in .wasm or .wasm.gz`);
+  }
+
+  const argsError = validateOptionalString(v.upgradeArgs, 'upgradeArgs', args =>
+    args.trim().startsWith('(') && isBalancedCandid(args) ? null : `upgradeArgs "${args}" is not a balanced Candid value like (record {...})`);
+  if (argsError) errors.push(argsError);
+
+  const didError = validateOptionalString(v.upgradeArgsDid, 'upgradeArgsDid', did =>
+    isRelativePath(did) && did.endsWith('.did') ? null : `upgradeArgsDid "${did}" must be a relative path to a .did file`);
+  if (didError) errors.push(didError);
+
+  const typeError = validateOptionalString(v.upgradeArgsType, 'upgradeArgsType', type =>
+    isBalancedCandid(type) ? null : `upgradeArgsType "${type}" has unbalanced brackets`);
+  if (typeError) errors.push(typeError);
+
+  if (errors.length > 0) {
+    return { fields: null, errors };
+  }
+
+  return {
+    fields: {
+      repoUrl: v.repoUrl as string,
+      steps: v.steps as string[],
+      wasmOutputPath: v.wasmOutputPath as string,
+      upgradeArgs: (v.upgradeArgs as string | null | undefined) || null,
+      upgradeArgsDid: (v.upgradeArgsDid as string | null | undefined) || null,
+      upgradeArgsType: (v.upgradeArgsType as string | null | undefined) || null,
+    },
+    errors: [],
+  };
+}
+
+export function parseJsonResponse(response: string): unknown {
+  let jsonStr = response.trim();
+
+  // Remove markdown code blocks if present
+  if (jsonStr.startsWith('```')) {
+    jsonStr = jsonStr.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  }
+
+  return JSON.parse(jsonStr);
+}
+
+function retryPrompt(prompt: string, previous: string, errors: string[]): string {
+  return `${prompt}
+Your previous answer was:
+${previous}
+
+It was rejected for these reasons:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Answer again with corrected JSON that matches the schema.
+`;
+}
+
+// DEFAULT_MAX_ATTEMPTS unless LLM_MAX_ATTEMPTS says otherwise
+export function resolveMaxAttempts(value: string | undefined): number {
+  if (!value) {
+    return DEFAULT_MAX_ATTEMPTS;
+  }
+  const attempts = Number(value);
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new Error(`LLM_MAX_ATTEMPTS must be a positive integer, got "${value}"`);
+  }
+  return attempts;
+}
+
+/**
+ * Ask one provider for build steps, re-prompting with the validation errors
+ * until it gives a valid answer or maxAttempts is reached.
+ */
+export async function extractWithRetries(
+  provider: LlmProvider,
+  prompt: string,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<ExtractedBuildFields> {
+  let currentPrompt = prompt;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.generate(currentPrompt, BUILD_STEPS_SCHEMA);
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(response);
+    } catch (err) {
+      errors = [`response is not valid JSON: ${err instanceof Error ? err.message : err}`];
+      currentPrompt = retryPrompt(prompt, response, errors);
+      continue;
+    }
+
+    const result = validateExtractedFields(parsed);
+    if (result.fields) {
+      return result.fields;
+    }
+    errors = result.errors;
+    currentPrompt = retryPrompt(prompt, response, errors);
+  }
+
+  throw new LlmExtractionError(provider.name, maxAttempts, errors);
+}
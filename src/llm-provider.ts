@@ -0,0 +1,171 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { readFileSync } from 'fs';
+
+/**
+ * A model that can answer the extraction prompt. Running the prompt against
+ * several providers lets a single misbehaving model be outvoted.
+ */
+export interface LlmProvider {
+  // Shown in reports, e.g. "gemini:gemini-2.0-flash"
+  readonly name: string;
+  // When a schema is given, providers that support structured output enforce it
+  generate(prompt: string, schema?: JsonSchema): Promise<string>;
+}
+
+// The subset of JSON Schema used to describe structured LLM output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | ['string', 'null'];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: false;
+}
+
+// Gemini takes an OpenAPI-style schema with upper-case types and a nullable flag
+export function toGeminiSchema(schema: JsonSchema): Schema {
+  const nullable = Array.isArray(schema.type);
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  const result: Schema = {
+    type: type === 'object' ? Type.OBJECT : type === 'array' ? Type.ARRAY : Type.STRING,
+  };
+  if (nullable) result.nullable = true;
+  if (schema.description) result.description = schema.description;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    result.propertyOrdering = Object.keys(schema.properties);
+  }
+  return result;
+}
+
+export const DEFAULT_LLM_PROVIDERS = 'gemini:gemini-2.0-flash';
+
+export class GeminiProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private model: string, private apiKey: string | undefined) {
+    this.name = `gemini:${model}`;
+  }
+
+  async generate(prompt: string, schema?: JsonSchema): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        temperature: 0.1,
+        maxOutputTokens: 1024,
+        ...(schema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) }),
+      },
+    });
+
+    return response.text || '';
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local Ollama/llama.cpp server that keeps the proposal text offline.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private baseUrl: string,
+    private model: string,
+    private apiKey: string | undefined
+  ) {}
+
+  async generate(prompt: string, schema?: JsonSchema): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0.1,
+        max_tokens: 1024,
+        messages: [{ role: 'user', content: prompt }],
+        ...(schema && {
+          response_format: { type: 'json_schema', json_schema: { name: 'build_steps', strict: true, schema } },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} returned HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+    return body.choices?.[0]?.message?.content || '';
+  }
+}
+
+// Offline stand-in that answers every prompt with a saved response
+export class FileProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private path: string) {
+    this.name = `file:${path}`;
+  }
+
+  async generate(): Promise<string> {
+    return readFileSync(this.path, 'utf-8');
+  }
+}
+
+/**
+ * Build providers from a comma-separated list of `kind:model` entries, e.g.
+ * `gemini:gemini-2.0-flash,openai:gpt-4o-mini,ollama:llama3.1,file:response.json`.
+ */
+export function createLlmProviders(spec: string, env: NodeJS.ProcessEnv = process.env): LlmProvider[] {
+  const entries = spec.split(',').map(e => e.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    throw new Error('No LLM providers configured');
+  }
+
+  return entries.map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator === -1) {
+      throw new Error(`Invalid LLM provider "${entry}": expected kind:model`);
+    }
+    const kind = entry.slice(0, separator);
+    const model = entry.slice(separator + 1);
+
+    switch (kind) {
+      case 'gemini':
+        return new GeminiProvider(model, env.GEMINI_API_KEY);
+      case 'openai':
+        return new OpenAICompatibleProvider(entry, env.OPENAI_BASE_URL || 'https://api.openai.com/v1', model, env.OPENAI_API_KEY);
+      case 'ollama':
+        return new OpenAICompatibleProvider(entry, `${env.OLLAMA_HOST || 'http://127.0.0.1:11434'}/v1`, model, undefined);
+      case 'file':
+        return new FileProvider(model);
+      default:
+        throw new Error(`Unknown LLM provider kind "${kind}" in "${entry}"`);
+    }
+  });
+}
+
+// A strict majority unless LLM_QUORUM says otherwise
+export function resolveQuorum(providerCount: number, value: string | undefined): number {
+  if (!value) {
+    return Math.floor(providerCount / 2) + 1;
+  }
+  const quorum = Number(value);
+  if (!Number.isInteger(quorum) || quorum < 1 || quorum > providerCount) {
+    throw new Error(`LLM_QUORUM must be an integer between 1 and ${providerCount}, got "${value}"`);
+  }
+  return quorum;
+}
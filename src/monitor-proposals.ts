@@ -1,16 +1,19 @@
-import { HttpAgent, Actor } from '@dfinity/agent';
-import { Principal } from '@dfinity/principal';
 import { execSync } from 'child_process';
 import { writeFileSync } from 'fs';
-
-const GOVERNANCE_CANISTER_ID = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+import { GovernanceClient, createGovernanceClient } from './governance-client.js';
+import { parseNetworkArgs, resolveNetworkConfig } from './network-config.js';
 
 // Only verify proposals after this ID (approximately Jan 11, 2026)
 // This avoids triggering verification for old proposals
 const MIN_PROPOSAL_ID = 139768n;
 
-// Only track InstallCode proposals (topic 17)
-const TRACKED_TOPICS = [17];
+// Only track code-shipping topics: Protocol Canister Management (17, InstallCode
+// and NnsCanisterUpgrade) and Service Nervous System Management (18, AddSnsWasm).
+// Exported for testing
+export const TRACKED_TOPICS = [17, 18];
+
+// NNS ProposalStatus::Executed; the new code is installed once a proposal gets here
+export const PROPOSAL_STATUS_EXECUTED = 4;
 
 export interface ProposalInfo {
   id: bigint;
@@ -49,56 +52,20 @@ export function filterNewProposals(
   });
 }
 
-// IDL for list_proposals
-const governanceIdl = ({ IDL }: { IDL: any }) => {
-  const ListProposalInfo = IDL.Record({
-    id: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
-    proposer: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
-    proposal: IDL.Opt(IDL.Record({
-      title: IDL.Opt(IDL.Text),
-      summary: IDL.Text,
-      url: IDL.Text,
-      action: IDL.Opt(IDL.Variant({
-        InstallCode: IDL.Record({
-          wasm_module_hash: IDL.Opt(IDL.Vec(IDL.Nat8)),
-          canister_id: IDL.Opt(IDL.Principal),
-        }),
-      })),
-    })),
-    topic: IDL.Int32,
-    status: IDL.Int32,
-  });
-
-  const ListProposalInfoResponse = IDL.Record({
-    proposal_info: IDL.Vec(ListProposalInfo),
-  });
-
-  return IDL.Service({
-    list_proposals: IDL.Func(
-      [IDL.Record({
-        include_reward_status: IDL.Vec(IDL.Int32),
-        omit_large_fields: IDL.Opt(IDL.Bool),
-        before_proposal: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
-        limit: IDL.Nat32,
-        exclude_topic: IDL.Vec(IDL.Int32),
-        include_all_manage_neuron_proposals: IDL.Opt(IDL.Bool),
-        include_status: IDL.Vec(IDL.Int32),
-      })],
-      [ListProposalInfoResponse],
-      ['query']
-    ),
-  });
-};
-
-async function listProposals(limit: number = 100): Promise<ProposalInfo[]> {
-  const agent = new HttpAgent({ host: 'https://ic0.app' });
-
-  const governance = Actor.createActor(governanceIdl, {
-    agent,
-    canisterId: Principal.fromText(GOVERNANCE_CANISTER_ID),
-  });
+// Exported for testing
+export function filterExecutedProposals(
+  proposals: ProposalInfo[],
+  trackedTopics: number[],
+  existingDeploymentRunIds: string[],
+  minProposalId: bigint
+): ProposalInfo[] {
+  return filterNewProposals(proposals, trackedTopics, existingDeploymentRunIds, minProposalId)
+    .filter(p => p.status === PROPOSAL_STATUS_EXECUTED);
+}
 
-  const result = await governance.list_proposals({
+// Exported for testing
+export async function listProposals(client: GovernanceClient, limit: number = 100): Promise<ProposalInfo[]> {
+  const result = await client.listProposals({
     include_reward_status: [],
     omit_large_fields: [true],
     before_proposal: [],
@@ -106,7 +73,7 @@ async function listProposals(limit: number = 100): Promise<ProposalInfo[]> {
     exclude_topic: [],
     include_all_manage_neuron_proposals: [false],
     include_status: [], // All statuses
-  }) as any;
+  });
 
   return result.proposal_info.map((p: any) => ({
     id: p.id?.[0]?.id || 0n,
@@ -117,19 +84,19 @@ async function listProposals(limit: number = 100): Promise<ProposalInfo[]> {
   }));
 }
 
-function getExistingWorkflowRuns(): string[] {
-  // Use GitHub CLI to get existing workflow runs for verify.yml
+function getExistingWorkflowRuns(workflow: string, titlePattern: RegExp): string[] {
+  // Use GitHub CLI to get existing workflow runs for the given workflow
   // Extract proposal IDs from run names like "Verify Proposal #139941"
   try {
     const output = execSync(
-      'gh run list --workflow=verify.yml --limit=200 --json displayTitle',
+      `gh run list --workflow=${workflow} --limit=200 --json displayTitle`,
       { encoding: 'utf-8' }
     );
     const runs = JSON.parse(output);
     const proposalIds: string[] = [];
 
     for (const run of runs) {
-      const match = run.displayTitle?.match(/Verify Proposal #(\d+)/);
+      const match = run.displayTitle?.match(titlePattern);
       if (match) {
         proposalIds.push(match[1]);
       }
@@ -147,52 +114,84 @@ async function main() {
   console.log('=== ICP Build Verifier - Proposal Monitor ===');
   console.log('');
 
+  const network = resolveNetworkConfig(parseNetworkArgs(process.argv.slice(2)).overrides);
+  // The ID cutoff only applies to mainnet history; a local replica starts from proposal 1
+  const minProposalId = network.name === 'mainnet' ? MIN_PROPOSAL_ID : 0n;
+
+  console.log(`Network: ${network.name} (${network.hosts[0]})`);
   console.log(`Tracking topics: ${TRACKED_TOPICS.join(', ')}`);
-  console.log(`Minimum proposal ID: ${MIN_PROPOSAL_ID}`);
+  console.log(`Minimum proposal ID: ${minProposalId}`);
   console.log('');
 
   // Fetch recent proposals from NNS
   console.log('Fetching recent proposals from NNS governance...');
-  const proposals = await listProposals(100);
+  const client = createGovernanceClient({
+    host: network.hosts[0],
+    canisterId: network.nnsGovernanceCanisterId,
+    fetchRootKey: network.fetchRootKey,
+    recordDir: process.env.GOVERNANCE_RECORD_DIR || null,
+    replayDir: process.env.GOVERNANCE_REPLAY_DIR || null,
+  });
+  const proposals = await listProposals(client, 100);
   console.log(`Retrieved ${proposals.length} proposals`);
 
   // Get existing workflow runs to avoid re-triggering
   console.log('Checking existing workflow runs...');
-  const existingRuns = getExistingWorkflowRuns();
-  console.log(`Found ${existingRuns.length} existing runs`);
+  const existingRuns = getExistingWorkflowRuns('verify.yml', /Verify Proposal #(\d+)/);
+  const existingDeploymentRuns = getExistingWorkflowRuns('verify-deployment.yml', /Verify Deployment #(\d+)/);
+  console.log(`Found ${existingRuns.length} existing runs, ${existingDeploymentRuns.length} deployment checks`);
 
   // Filter to new proposals that need verification
   const newProposals = filterNewProposals(
     proposals,
     TRACKED_TOPICS,
     existingRuns,
-    MIN_PROPOSAL_ID
+    minProposalId
+  );
+
+  // Executed proposals whose installed module hash hasn't been checked yet
+  const executedProposals = filterExecutedProposals(
+    proposals,
+    TRACKED_TOPICS,
+    existingDeploymentRuns,
+    minProposalId
   );
 
   console.log(`Found ${newProposals.length} new proposals matching criteria`);
+  console.log(`Found ${executedProposals.length} executed proposals awaiting deployment check`);
   console.log('');
 
+  // Output the proposal IDs for the workflow to trigger
+  const proposalIds = newProposals.map(p => p.id.toString());
+  const executedProposalIds = executedProposals.map(p => p.id.toString());
+
   if (newProposals.length === 0) {
     console.log('No new proposals to verify.');
-    return;
+  } else {
+    console.log('New proposals to verify:');
+    newProposals.forEach(p => {
+      console.log(`  - #${p.id}: ${p.title} (topic: ${p.topic})`);
+    });
   }
 
-  // Output the proposal IDs for the workflow to trigger
-  const proposalIds = newProposals.map(p => p.id.toString());
-
-  console.log('New proposals to verify:');
-  newProposals.forEach(p => {
-    console.log(`  - #${p.id}: ${p.title} (topic: ${p.topic})`);
-  });
+  if (executedProposals.length > 0) {
+    console.log('Executed proposals to check deployment for:');
+    executedProposals.forEach(p => {
+      console.log(`  - #${p.id}: ${p.title}`);
+    });
+  }
   console.log('');
 
-  // Write proposal IDs to file for workflow to consume
+  // Write proposal IDs to files for workflow to consume
   writeFileSync('new-proposals.json', JSON.stringify(proposalIds, null, 2));
+  writeFileSync('executed-proposals.json', JSON.stringify(executedProposalIds, null, 2));
   console.log(`Wrote ${proposalIds.length} proposal IDs to new-proposals.json`);
+  console.log(`Wrote ${executedProposalIds.length} proposal IDs to executed-proposals.json`);
 
   // Set GitHub Actions output
   if (process.env.GITHUB_OUTPUT) {
-    const output = `proposal_ids=${JSON.stringify(proposalIds)}\ncount=${proposalIds.length}`;
+    const output = `proposal_ids=${JSON.stringify(proposalIds)}\ncount=${proposalIds.length}\n`
+      + `executed_proposal_ids=${JSON.stringify(executedProposalIds)}\nexecuted_count=${executedProposalIds.length}\n`;
     writeFileSync(process.env.GITHUB_OUTPUT, output, { flag: 'a' });
   }
 }
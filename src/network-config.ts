@@ -0,0 +1,117 @@
+import { readFileSync, existsSync } from 'fs';
+import { parseHosts } from './cross-check.js';
+
+export const DEFAULT_NETWORK_CONFIG_PATH = 'config/networks.json';
+export const DEFAULT_NETWORK = 'mainnet';
+
+export interface NetworkConfig {
+  name: string;
+  hosts: string[];
+  nnsGovernanceCanisterId: string;
+  // Only safe against a local replica or testnet; on mainnet the root key is built in
+  fetchRootKey: boolean;
+}
+
+export interface NetworkOverrides {
+  network?: string;
+  configPath?: string;
+  hosts?: string[];
+  nnsGovernanceCanisterId?: string;
+  fetchRootKey?: boolean;
+}
+
+type NetworkFileEntry = Partial<Omit<NetworkConfig, 'name'>>;
+
+const BUILTIN_NETWORKS: Record<string, NetworkFileEntry> = {
+  mainnet: {
+    hosts: ['https://ic0.app'],
+    nnsGovernanceCanisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+    fetchRootKey: false,
+  },
+};
+
+const MAINNET_HOSTS = /^https:\/\/([a-z0-9-]+\.)*(ic0\.app|icp0\.io|icp-api\.io)$/;
+
+export function isMainnetHost(host: string): boolean {
+  return MAINNET_HOSTS.test(host.replace(/\/$/, ''));
+}
+
+/**
+ * Pull the shared network flags out of a CLI argument list, returning them
+ * alongside the arguments the calling script still has to handle itself.
+ */
+export function parseNetworkArgs(args: string[]): { overrides: NetworkOverrides; rest: string[] } {
+  const overrides: NetworkOverrides = {};
+  const rest: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--network') {
+      overrides.network = args[++i];
+    } else if (args[i] === '--network-config') {
+      overrides.configPath = args[++i];
+    } else if (args[i] === '--hosts') {
+      overrides.hosts = parseHosts(args[++i]);
+    } else if (args[i] === '--governance-canister') {
+      overrides.nnsGovernanceCanisterId = args[++i];
+    } else if (args[i] === '--fetch-root-key') {
+      overrides.fetchRootKey = true;
+    } else {
+      rest.push(args[i]);
+    }
+  }
+
+  return { overrides, rest };
+}
+
+export function networkOverridesFromEnv(env: NodeJS.ProcessEnv): NetworkOverrides {
+  const overrides: NetworkOverrides = {};
+  if (env.IC_NETWORK) overrides.network = env.IC_NETWORK;
+  if (env.IC_NETWORK_CONFIG) overrides.configPath = env.IC_NETWORK_CONFIG;
+  if (env.IC_HOSTS) overrides.hosts = parseHosts(env.IC_HOSTS);
+  if (env.NNS_GOVERNANCE_CANISTER_ID) overrides.nnsGovernanceCanisterId = env.NNS_GOVERNANCE_CANISTER_ID;
+  if (env.IC_FETCH_ROOT_KEY) overrides.fetchRootKey = env.IC_FETCH_ROOT_KEY === 'true';
+  return overrides;
+}
+
+function readNetworkFile(path: string, required: boolean): Record<string, NetworkFileEntry> {
+  if (!existsSync(path)) {
+    if (required) {
+      throw new Error(`Network config file not found: ${path}`);
+    }
+    return {};
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Resolve the network to talk to. Precedence: CLI flags, then environment,
+ * then the named entry in the config file, then built-in mainnet defaults.
+ * Root key fetching defaults to on for any host that isn't mainnet.
+ */
+export function resolveNetworkConfig(cli: NetworkOverrides = {}, env: NodeJS.ProcessEnv = process.env): NetworkConfig {
+  const fromEnv = networkOverridesFromEnv(env);
+  const name = cli.network || fromEnv.network || DEFAULT_NETWORK;
+  const configPath = cli.configPath || fromEnv.configPath;
+
+  const networks = {
+    ...BUILTIN_NETWORKS,
+    ...readNetworkFile(configPath || DEFAULT_NETWORK_CONFIG_PATH, !!configPath),
+  };
+  const entry = networks[name];
+  if (!entry) {
+    throw new Error(`Unknown network "${name}" (known: ${Object.keys(networks).join(', ')})`);
+  }
+
+  const hosts = cli.hosts || fromEnv.hosts || entry.hosts;
+  const nnsGovernanceCanisterId = cli.nnsGovernanceCanisterId || fromEnv.nnsGovernanceCanisterId || entry.nnsGovernanceCanisterId;
+  if (!hosts || hosts.length === 0) {
+    throw new Error(`Network "${name}" has no hosts configured`);
+  }
+  if (!nnsGovernanceCanisterId) {
+    throw new Error(`Network "${name}" has no nnsGovernanceCanisterId configured`);
+  }
+
+  const fetchRootKey = cli.fetchRootKey ?? fromEnv.fetchRootKey ?? entry.fetchRootKey ?? !hosts.every(isMainnetHost);
+
+  return { name, hosts, nnsGovernanceCanisterId, fetchRootKey };
+}
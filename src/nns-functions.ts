@@ -0,0 +1,170 @@
+import { IDL } from '@dfinity/candid';
+import { createHash } from 'crypto';
+import { InstallMode, installModeFromVariant } from './install-mode.js';
+
+// Well-known NNS canisters that ExecuteNnsFunction proposals install code into
+export const NNS_ROOT_CANISTER_ID = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+export const SNS_WASM_CANISTER_ID = 'qaa6y-5yaaa-aaaaa-aaafa-cai';
+
+// NNS function IDs (see rs/nns/governance/proto NnsFunction enum)
+export const NNS_FUNCTION_NNS_CANISTER_INSTALL = 3;
+export const NNS_FUNCTION_NNS_CANISTER_UPGRADE = 4;
+export const NNS_FUNCTION_NNS_ROOT_UPGRADE = 8;
+export const NNS_FUNCTION_ADD_SNS_WASM = 30;
+
+const NNS_FUNCTION_NAMES: Record<number, string> = {
+  [NNS_FUNCTION_NNS_CANISTER_INSTALL]: 'NnsCanisterInstall',
+  [NNS_FUNCTION_NNS_CANISTER_UPGRADE]: 'NnsCanisterUpgrade',
+  [NNS_FUNCTION_NNS_ROOT_UPGRADE]: 'NnsRootUpgrade',
+  [NNS_FUNCTION_ADD_SNS_WASM]: 'AddSnsWasm',
+};
+
+// Payload types. Only the fields we need are declared; Candid subtyping
+// lets extra fields on the wire be ignored.
+const CanisterInstallMode = IDL.Variant({
+  install: IDL.Null,
+  reinstall: IDL.Null,
+  upgrade: IDL.Null,
+});
+
+const AddNnsCanisterProposal = IDL.Record({
+  name: IDL.Text,
+  wasm_module: IDL.Vec(IDL.Nat8),
+  arg: IDL.Vec(IDL.Nat8),
+});
+
+const ChangeCanisterRequest = IDL.Record({
+  stop_before_installing: IDL.Bool,
+  mode: CanisterInstallMode,
+  canister_id: IDL.Principal,
+  wasm_module: IDL.Vec(IDL.Nat8),
+  arg: IDL.Vec(IDL.Nat8),
+});
+
+const UpgradeRootProposalPayload = IDL.Record({
+  wasm_module: IDL.Vec(IDL.Nat8),
+  module_arg: IDL.Vec(IDL.Nat8),
+  stop_upgrade_start: IDL.Bool,
+});
+
+const SnsWasm = IDL.Record({
+  wasm: IDL.Vec(IDL.Nat8),
+  proposal_id: IDL.Opt(IDL.Nat64),
+  canister_type: IDL.Int32,
+});
+
+const AddWasmRequest = IDL.Record({
+  hash: IDL.Vec(IDL.Nat8),
+  wasm: IDL.Opt(SnsWasm),
+});
+
+export interface DecodedNnsFunction {
+  nnsFunction: number;
+  nnsFunctionName: string;
+  canisterId: string | null;
+  wasmHash: string;
+  argHash: string | null;
+  // Hash declared inside the payload itself (AddSnsWasm carries one)
+  declaredWasmHash: string | null;
+  installMode: InstallMode | null;
+  skipStoppingBeforeInstalling: boolean | null;
+}
+
+export function nnsFunctionName(nnsFunction: number): string {
+  return NNS_FUNCTION_NAMES[nnsFunction] || `Unknown(${nnsFunction})`;
+}
+
+export function isSupportedNnsFunction(nnsFunction: number): boolean {
+  return nnsFunction in NNS_FUNCTION_NAMES;
+}
+
+function sha256Hex(bytes: Uint8Array | number[]): string {
+  return createHash('sha256').update(Uint8Array.from(bytes)).digest('hex');
+}
+
+function bytesToHex(bytes: number[] | Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// An empty arg blob means "no arguments", matching InstallCode's absent arg_hash
+function argHashOrNull(arg: Uint8Array | number[]): string | null {
+  return arg.length > 0 ? sha256Hex(arg) : null;
+}
+
+function decodeSingle(type: IDL.Type, payload: Uint8Array): any {
+  const buffer = payload.buffer.slice(payload.byteOffset, payload.byteOffset + payload.byteLength);
+  return IDL.decode([type], buffer as ArrayBuffer)[0];
+}
+
+/**
+ * Decode the Candid payload of an ExecuteNnsFunction proposal for the NNS
+ * functions that ship code. Returns null for functions that carry no WASM.
+ */
+export function decodeNnsFunctionPayload(nnsFunction: number, payload: Uint8Array | number[]): DecodedNnsFunction | null {
+  const bytes = Uint8Array.from(payload);
+  const name = nnsFunctionName(nnsFunction);
+
+  switch (nnsFunction) {
+    case NNS_FUNCTION_NNS_CANISTER_INSTALL: {
+      const req = decodeSingle(AddNnsCanisterProposal, bytes);
+      return {
+        nnsFunction,
+        nnsFunctionName: name,
+        // The canister is created by the proposal, so its ID isn't known yet
+        canisterId: null,
+        wasmHash: sha256Hex(req.wasm_module),
+        argHash: argHashOrNull(req.arg),
+        declaredWasmHash: null,
+        installMode: 'install',
+        skipStoppingBeforeInstalling: null,
+      };
+    }
+    case NNS_FUNCTION_NNS_CANISTER_UPGRADE: {
+      const req = decodeSingle(ChangeCanisterRequest, bytes);
+      return {
+        nnsFunction,
+        nnsFunctionName: name,
+        canisterId: req.canister_id.toText(),
+        wasmHash: sha256Hex(req.wasm_module),
+        argHash: argHashOrNull(req.arg),
+        declaredWasmHash: null,
+        installMode: installModeFromVariant(req.mode),
+        skipStoppingBeforeInstalling: !req.stop_before_installing,
+      };
+    }
+    case NNS_FUNCTION_NNS_ROOT_UPGRADE: {
+      const req = decodeSingle(UpgradeRootProposalPayload, bytes);
+      return {
+        nnsFunction,
+        nnsFunctionName: name,
+        canisterId: NNS_ROOT_CANISTER_ID,
+        wasmHash: sha256Hex(req.wasm_module),
+        argHash: argHashOrNull(req.module_arg),
+        declaredWasmHash: null,
+        // Lifeline always upgrades root; stop_upgrade_start controls stopping it first
+        installMode: 'upgrade',
+        skipStoppingBeforeInstalling: !req.stop_upgrade_start,
+      };
+    }
+    case NNS_FUNCTION_ADD_SNS_WASM: {
+      const req = decodeSingle(AddWasmRequest, bytes);
+      const snsWasm = req.wasm?.[0];
+      if (!snsWasm) {
+        throw new Error('AddSnsWasm payload has no wasm');
+      }
+      return {
+        nnsFunction,
+        nnsFunctionName: name,
+        canisterId: SNS_WASM_CANISTER_ID,
+        wasmHash: sha256Hex(snsWasm.wasm),
+        argHash: null,
+        declaredWasmHash: bytesToHex(req.hash),
+        // The WASM is only stored in SNS-W, not installed anywhere
+        installMode: null,
+        skipStoppingBeforeInstalling: null,
+      };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { readFileSync } from 'fs';
+import { SectionDifference, diffWasmSections } from './wasm-sections.js';
+
+export const REPRODUCIBILITY_REPORT_PATH = 'reproducibility.json';
+
+/**
+ * - verified: both builds are identical and match the proposal
+ * - reproducible-mismatch: both builds are identical but differ from the proposal,
+ *   so the proposal (or the extracted build) is wrong, not the build
+ * - nondeterministic-build: the two builds differ, so a mismatch says nothing
+ * - build-failed: at least one build produced no artifact
+ */
+export type ReproducibilityVerdict = 'verified' | 'reproducible-mismatch' | 'nondeterministic-build' | 'build-failed';
+
+export interface RebuildSummary {
+  // Where and as whom the build ran, to show the workspaces were independent
+  repoDir: string;
+  user: string;
+  env: Record<string, string>;
+  startedAt: string;
+  finishedAt: string | null;
+  success: boolean;
+  error: string | null;
+  sha256: string | null;
+}
+
+export interface ReproducibilityReport {
+  verdict: ReproducibilityVerdict;
+  expectedWasmHash: string | null;
+  builds: RebuildSummary[];
+  // Sections that differ between the two artifacts; empty when they are identical
+  sectionDifferences: SectionDifference[];
+  // Set when the artifacts could not be parsed as WebAssembly
+  sectionDiffError?: string;
+}
+
+export function classifyReproducibility(expectedWasmHash: string | null, first: string | null, second: string | null): ReproducibilityVerdict {
+  if (!first || !second) {
+    return 'build-failed';
+  }
+  if (first.toLowerCase() !== second.toLowerCase()) {
+    return 'nondeterministic-build';
+  }
+  return expectedWasmHash && first.toLowerCase() === expectedWasmHash.toLowerCase() ? 'verified' : 'reproducible-mismatch';
+}
+
+/**
+ * Compare two builds of the same commit. When both produced an artifact and
+ * they differ, the differing WASM sections are listed to help find the source
+ * of the nondeterminism (e.g. embedded paths or timestamps).
+ */
+export function compareBuilds(
+  expectedWasmHash: string | null,
+  builds: [RebuildSummary, RebuildSummary],
+  artifacts: [string | null, string | null]
+): ReproducibilityReport {
+  const verdict = classifyReproducibility(expectedWasmHash, builds[0].sha256, builds[1].sha256);
+  const report: ReproducibilityReport = { verdict, expectedWasmHash, builds, sectionDifferences: [] };
+
+  const [first, second] = artifacts;
+  if (verdict === 'nondeterministic-build' && first && second) {
+    try {
+      report.sectionDifferences = diffWasmSections(readFileSync(first), readFileSync(second));
+    } catch (err) {
+      report.sectionDiffError = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return report;
+}
+
+export function verdictLabel(verdict: ReproducibilityVerdict): string {
+  switch (verdict) {
+    case 'verified':
+      return '✅ VERIFIED (reproducible)';
+    case 'reproducible-mismatch':
+      return '❌ REPRODUCIBLE MISMATCH (both builds agree; the proposal hash differs)';
+    case 'nondeterministic-build':
+      return '⚠️ NONDETERMINISTIC BUILD (the two builds differ)';
+    case 'build-failed':
+      return '❌ BUILD FAILED';
+  }
+}
@@ -0,0 +1,267 @@
+// Fields extracted from a proposal summary, by rules or by the LLM
+export interface ExtractedBuildFields {
+  repoUrl: string;
+  steps: string[];
+  wasmOutputPath: string;
+  upgradeArgs: string | null;
+  upgradeArgsDid: string | null;
+  upgradeArgsType: string | null;
+}
+
+export type UpgradeArgsFields = Pick<ExtractedBuildFields, 'upgradeArgs' | 'upgradeArgsDid' | 'upgradeArgsType'>;
+
+export type RuleExtractionResult =
+  | { ok: true; fields: ExtractedBuildFields }
+  | { ok: false; reasons: string[] };
+
+export interface FieldAgreement {
+  field: keyof ExtractedBuildFields;
+  agree: boolean;
+  rules: unknown;
+  llm: unknown;
+}
+
+interface CodeBlock {
+  lang: string;
+  body: string;
+  // Nearest markdown heading above the block
+  heading: string;
+}
+
+export function findCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const fence = /^```([^\n`]*)\n([\s\S]*?)^```/gm;
+  for (const match of markdown.matchAll(fence)) {
+    const before = markdown.slice(0, match.index);
+    const headings = [...before.matchAll(/^#+\s+(.*)$/gm)];
+    blocks.push({
+      lang: match[1].trim().toLowerCase(),
+      body: match[2],
+      heading: headings.length > 0 ? headings[headings.length - 1][1].trim() : '',
+    });
+  }
+  return blocks;
+}
+
+// Join backslash-continued lines and drop comments and blank lines
+export function blockCommands(body: string): string[] {
+  const joined = body.replace(/[ \t]*\\\n\s*/g, ' ');
+  return joined
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * Split a shell command line into words, honouring single and double quotes
+ * and backslash escapes. Stops at an unquoted pipe.
+ */
+export function splitShellWords(line: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (ch === '\\' && quote === '"' && i + 1 < line.length) {
+        current += line[++i];
+      } else {
+        current += ch;
+      }
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (ch === '\\' && i + 1 < line.length) {
+      current += line[++i];
+      inWord = true;
+    } else if (ch === '|' || ch === ';' || ch === '&') {
+      break;
+    } else if (/\s/.test(ch)) {
+      if (inWord) {
+        words.push(current);
+        current = '';
+        inWord = false;
+      }
+    } else {
+      current += ch;
+      inWord = true;
+    }
+  }
+  if (inWord) {
+    words.push(current);
+  }
+  return words;
+}
+
+export function normalizeGitRemote(remote: string): string {
+  return remote
+    .replace(/^git@github\.com:/, 'https://github.com/')
+    .replace(/^ssh:\/\/git@github\.com\//, 'https://github.com/')
+    .replace(/\.git$/, '')
+    .replace(/\/$/, '');
+}
+
+function stripDotSlash(path: string): string {
+  return path.replace(/^\.\//, '');
+}
+
+const GIT_OR_NAV = /^(git|cd|pushd|popd)\b/;
+const WASM_PATH = /\.wasm(\.gz)?$/;
+
+function findRepoUrl(summary: string, commands: string[]): string | null {
+  for (const command of commands) {
+    const words = splitShellWords(command);
+    if (words[0] === 'git' && words[1] === 'clone') {
+      const remote = words.slice(2).find(w => !w.startsWith('-'));
+      if (remote) {
+        return normalizeGitRemote(remote);
+      }
+    }
+  }
+
+  // Fall back to a link to the commit or tree being proposed
+  const link = summary.match(/https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/(?:tree|commit)\/[a-f0-9]{40}/i);
+  return link ? `https://github.com/${link[1]}/${link[2]}` : null;
+}
+
+function findDidcEncode(commands: string[]): UpgradeArgsFields | null {
+  for (const command of commands) {
+    const words = splitShellWords(command);
+    if (words[0] !== 'didc' || words[1] !== 'encode') {
+      continue;
+    }
+
+    let did: string | null = null;
+    let type: string | null = null;
+    let args: string | null = null;
+    for (let i = 2; i < words.length; i++) {
+      if (words[i] === '-d' || words[i] === '--defs') {
+        did = words[++i] ?? null;
+      } else if (words[i] === '-t' || words[i] === '--types') {
+        type = words[++i] ?? null;
+      } else if (!words[i].startsWith('-')) {
+        args = words[i];
+      }
+    }
+    if (args) {
+      return { upgradeArgs: args, upgradeArgsDid: did, upgradeArgsType: type };
+    }
+  }
+  return null;
+}
+
+function findUpgradeArgs(blocks: CodeBlock[]): UpgradeArgsFields {
+  const args = findDidcEncode(blocks.flatMap(b => blockCommands(b.body)));
+  if (args) {
+    return args;
+  }
+  // Some proposals only list the arguments in an "Upgrade Arguments" candid block
+  const argsBlock = blocks.find(b => b.lang === 'candid' && /argument/i.test(b.heading));
+  const candid = argsBlock?.body.trim();
+  return { upgradeArgs: candid || null, upgradeArgsDid: null, upgradeArgsType: null };
+}
+
+// Upgrade arguments alone, for when the build itself comes from elsewhere
+export function extractUpgradeArgsByRules(summary: string): UpgradeArgsFields {
+  return findUpgradeArgs(findCodeBlocks(summary));
+}
+
+/**
+ * Extract build instructions from the fenced shell blocks that DFINITY
+ * proposals use in their "Verification" section, with no LLM involved.
+ * Fails (rather than guessing) when any required field can't be found.
+ */
+export function extractBuildStepsByRules(summary: string): RuleExtractionResult {
+  const blocks = findCodeBlocks(summary);
+  const reasons: string[] = [];
+
+  // The WASM verification block is the one that fingerprints a .wasm(.gz)
+  const wasmBlock = blocks.find(b => blockCommands(b.body).some(c => {
+    const words = splitShellWords(c);
+    return words[0] === 'sha256sum' && words.slice(1).some(w => WASM_PATH.test(w));
+  }));
+
+  if (!wasmBlock) {
+    reasons.push('no code block runs sha256sum on a .wasm or .wasm.gz file');
+  }
+
+  const wasmCommands = wasmBlock ? blockCommands(wasmBlock.body) : [];
+  const allCommands = blocks.flatMap(b => blockCommands(b.body));
+
+  let wasmOutputPath: string | null = null;
+  const steps: string[] = [];
+  for (const command of wasmCommands) {
+    const words = splitShellWords(command);
+    if (words[0] === 'sha256sum') {
+      const path = words.slice(1).find(w => WASM_PATH.test(w));
+      if (path && !wasmOutputPath) {
+        wasmOutputPath = stripDotSlash(path);
+      }
+      continue;
+    }
+    if (GIT_OR_NAV.test(command)) {
+      continue;
+    }
+    steps.push(command);
+  }
+
+  if (wasmBlock && steps.length === 0) {
+    reasons.push('the WASM verification block has no build commands');
+  }
+
+  const repoUrl = findRepoUrl(summary, allCommands);
+  if (!repoUrl) {
+    reasons.push('no git clone command or GitHub commit link names the repository');
+  }
+
+  const args = findUpgradeArgs(blocks);
+
+  if (reasons.length > 0 || !wasmOutputPath || !repoUrl) {
+    return { ok: false, reasons };
+  }
+
+  return {
+    ok: true,
+    fields: { repoUrl, steps, wasmOutputPath, ...args },
+  };
+}
+
+function normalizeField(field: keyof ExtractedBuildFields, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (field) {
+    case 'repoUrl':
+      return normalizeGitRemote(String(value)).toLowerCase();
+    case 'wasmOutputPath':
+    case 'upgradeArgsDid':
+      return stripDotSlash(String(value));
+    case 'steps':
+      return (value as string[]).map(s => s.trim().replace(/\s+/g, ' '));
+    default:
+      return String(value).trim().replace(/\s+/g, ' ');
+  }
+}
+
+const EXTRACTED_FIELDS: (keyof ExtractedBuildFields)[] = ['repoUrl', 'steps', 'wasmOutputPath', 'upgradeArgs', 'upgradeArgsDid', 'upgradeArgsType'];
+
+// Strip formatting differences that don't change what gets built
+export function normalizeExtraction(fields: ExtractedBuildFields): Record<keyof ExtractedBuildFields, unknown> {
+  return Object.fromEntries(
+    EXTRACTED_FIELDS.map(field => [field, normalizeField(field, fields[field])])
+  ) as Record<keyof ExtractedBuildFields, unknown>;
+}
+
+// Compare the rule-based and LLM results field by field
+export function compareExtractions(rules: ExtractedBuildFields, llm: ExtractedBuildFields): FieldAgreement[] {
+  return EXTRACTED_FIELDS.map(field => ({
+    field,
+    agree: JSON.stringify(normalizeField(field, rules[field])) === JSON.stringify(normalizeField(field, llm[field])),
+    rules: rules[field],
+    llm: llm[field],
+  }));
+}
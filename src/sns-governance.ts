@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { FetchMethod, methodAnnotations } from './cross-check.js';
+import { InstallMode, installModeFromCode } from './install-mode.js';
+
+// IDL for SNS governance get_proposal, declaring only the action we verify
+export const snsGovernanceIdl = (fetchMethod: FetchMethod) => ({ IDL }: { IDL: any }) => {
+  const ChunkedCanisterWasm = IDL.Record({
+    wasm_module_hash: IDL.Vec(IDL.Nat8),
+    store_canister_id: IDL.Opt(IDL.Principal),
+    chunk_hashes_list: IDL.Vec(IDL.Vec(IDL.Nat8)),
+  });
+
+  const UpgradeSnsControlledCanister = IDL.Record({
+    new_canister_wasm: IDL.Vec(IDL.Nat8),
+    mode: IDL.Opt(IDL.Int32),
+    canister_id: IDL.Opt(IDL.Principal),
+    chunked_canister_wasm: IDL.Opt(ChunkedCanisterWasm),
+    canister_upgrade_arg: IDL.Opt(IDL.Vec(IDL.Nat8)),
+  });
+
+  const Proposal = IDL.Record({
+    url: IDL.Text,
+    title: IDL.Text,
+    action: IDL.Opt(IDL.Variant({
+      UpgradeSnsControlledCanister: UpgradeSnsControlledCanister,
+      // Other action types will be captured as unknown variants
+    })),
+    summary: IDL.Text,
+  });
+
+  const ProposalData = IDL.Record({
+    id: IDL.Opt(IDL.Record({ id: IDL.Nat64 })),
+    proposal: IDL.Opt(Proposal),
+    executed_timestamp_seconds: IDL.Nat64,
+  });
+
+  const GovernanceError = IDL.Record({
+    error_message: IDL.Text,
+    error_type: IDL.Int32,
+  });
+
+  const GetProposalResponse = IDL.Record({
+    result: IDL.Opt(IDL.Variant({
+      Error: GovernanceError,
+      Proposal: ProposalData,
+    })),
+  });
+
+  return IDL.Service({
+    get_proposal: IDL.Func(
+      [IDL.Record({ proposal_id: IDL.Opt(IDL.Record({ id: IDL.Nat64 })) })],
+      [GetProposalResponse],
+      methodAnnotations(fetchMethod)
+    ),
+  });
+};
+
+export interface SnsUpgradeHashes {
+  canisterId: string | null;
+  wasmHash: string;
+  argHash: string | null;
+  // Chunked uploads only put the hash on chain, not the WASM itself
+  chunked: boolean;
+  installMode: InstallMode;
+}
+
+function bytesToHex(bytes: number[] | Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Derive the expected hashes from a decoded UpgradeSnsControlledCanister action.
+ * Small WASMs are embedded in new_canister_wasm and hashed here; large ones are
+ * uploaded in chunks and the proposal carries wasm_module_hash instead.
+ */
+export function extractSnsUpgradeHashes(upgrade: any): SnsUpgradeHashes {
+  const chunked = upgrade.chunked_canister_wasm?.[0];
+  const wasmHash = chunked
+    ? bytesToHex(chunked.wasm_module_hash)
+    : createHash('sha256').update(Uint8Array.from(upgrade.new_canister_wasm)).digest('hex');
+
+  const arg = upgrade.canister_upgrade_arg?.[0];
+  const argHash = arg
+    ? createHash('sha256').update(Uint8Array.from(arg)).digest('hex')
+    : null;
+
+  return {
+    canisterId: upgrade.canister_id?.[0]?.toText() ?? null,
+    wasmHash,
+    argHash,
+    chunked: !!chunked,
+    // SNS governance upgrades when no mode is given
+    installMode: installModeFromCode(upgrade.mode?.[0]) ?? 'upgrade',
+  };
+}
@@ -0,0 +1,147 @@
+// What a SHA-256 in the summary claims to be
+export type StatedHashKind = 'wasm' | 'arg' | 'previous' | 'unlabeled';
+
+export interface StatedHash {
+  hash: string;
+  kind: StatedHashKind;
+  // Why the hash got its kind, for the report
+  reason: string;
+  line: string;
+}
+
+export interface SummaryHashCheck {
+  stated: StatedHash[];
+  // Hashes the text presents as the new WASM or arg hash that the payload doesn't carry
+  mismatches: StatedHash[];
+  wasmConfirmed: boolean;
+  argConfirmed: boolean;
+}
+
+const SHA256_REGEX = /\b[a-f0-9]{64}\b/gi;
+
+interface Label {
+  kind: Exclude<StatedHashKind, 'unlabeled'>;
+  pattern: RegExp;
+  reason: string;
+}
+
+// Letters-only boundaries, so markdown like __Current wasm hash__ and wasm_module_hash still match
+function label(words: string): RegExp {
+  return new RegExp(`(?<![a-z])(${words})(?![a-z])[^\\n]*$`, 'i');
+}
+
+// Matched against the text before the hash on its line. Old-version labels
+// come first so "Current wasm hash" isn't read as the proposed one.
+const LABELS: Label[] = [
+  { kind: 'previous', pattern: label('current|previous|old|last|prior'), reason: 'labeled as the current/previous version' },
+  { kind: 'arg', pattern: label('arg(ument)?s?[ _-]?(hash|sha)|didc encode'), reason: 'labeled as the arg hash' },
+  { kind: 'wasm', pattern: label('wasm|module[ _-]?hash'), reason: 'labeled as the wasm hash' },
+];
+
+// Lines of a code block that sit between a command and its output
+const NOISE_LINE = /^\s*(```\w*|\$)?\s*$/;
+
+function lineAt(text: string, index: number): { before: string; after: string; start: number } {
+  const start = text.lastIndexOf('\n', index - 1) + 1;
+  const end = text.indexOf('\n', index);
+  return { before: text.slice(start, index), after: text.slice(index, end === -1 ? undefined : end), start };
+}
+
+// The nearest non-blank, non-fence lines above the hash, e.g. the command whose output it is
+function linesAbove(text: string, lineStart: number, count: number): string[] {
+  const lines = text.slice(0, Math.max(0, lineStart - 1)).split('\n').reverse();
+  return lines.filter(l => !NOISE_LINE.test(l)).slice(0, count);
+}
+
+function classify(text: string, index: number, hash: string): { kind: StatedHashKind; reason: string } {
+  const { before, after, start } = lineAt(text, index);
+
+  const label = LABELS.find(l => l.pattern.test(before));
+  if (label) {
+    return { kind: label.kind, reason: label.reason };
+  }
+
+  const bare = /^[\s`*_>:-]*$/.test(before);
+
+  // sha256sum output: "<hash>  ./artifacts/canisters/foo.wasm.gz"
+  if (bare && /\.wasm(\.gz)?\b/.test(after.slice(hash.length))) {
+    return { kind: 'wasm', reason: 'sha256sum output for a .wasm file' };
+  }
+
+  // A hash on its own line takes its label from the line above, e.g. a heading or the command
+  if (bare) {
+    const [above] = linesAbove(text, start, 1);
+    if (above !== undefined) {
+      if (/didc encode/.test(above)) {
+        return { kind: 'arg', reason: 'output of didc encode | sha256sum' };
+      }
+      if (/sha256sum\s+\S*\.wasm(\.gz)?\b/.test(above)) {
+        return { kind: 'wasm', reason: 'output of sha256sum on a .wasm file' };
+      }
+      const aboveLabel = LABELS.find(l => l.pattern.test(above));
+      if (aboveLabel) {
+        return { kind: aboveLabel.kind, reason: `${aboveLabel.reason} on the line above` };
+      }
+    }
+  }
+
+  return { kind: 'unlabeled', reason: 'no label' };
+}
+
+/**
+ * Find every SHA-256 in the summary and work out what it claims to be. Each
+ * distinct hash is reported once, with the label from its first labeled mention.
+ */
+export function extractStatedHashes(summary: string): StatedHash[] {
+  const byHash = new Map<string, StatedHash>();
+
+  for (const match of summary.matchAll(SHA256_REGEX)) {
+    const hash = match[0].toLowerCase();
+    const { kind, reason } = classify(summary, match.index!, match[0]);
+    const { before, after } = lineAt(summary, match.index!);
+    const existing = byHash.get(hash);
+    if (!existing || (existing.kind === 'unlabeled' && kind !== 'unlabeled')) {
+      byHash.set(hash, { hash, kind, reason, line: (before + after).trim() });
+    }
+  }
+
+  return [...byHash.values()];
+}
+
+/**
+ * Compare what the summary says against the hashes in the payload. The text
+ * is what voters read, so a stated wasm or arg hash that differs from the
+ * payload is flagged even when the build itself matches. Unlabeled hashes
+ * that equal a payload hash count as confirming it.
+ */
+export function checkStatedHashes(
+  summary: string,
+  expectedWasmHash: string | null,
+  expectedArgHash: string | null
+): SummaryHashCheck {
+  const wasm = expectedWasmHash?.toLowerCase() ?? null;
+  const arg = expectedArgHash?.toLowerCase() ?? null;
+
+  const stated = extractStatedHashes(summary).map(s => {
+    if (s.kind !== 'unlabeled') {
+      return s;
+    }
+    if (s.hash === wasm) {
+      return { ...s, kind: 'wasm' as const, reason: 'equals the onchain wasm hash' };
+    }
+    if (s.hash === arg) {
+      return { ...s, kind: 'arg' as const, reason: 'equals the onchain arg hash' };
+    }
+    return s;
+  });
+
+  const mismatches = stated.filter(s =>
+    (s.kind === 'wasm' && s.hash !== wasm) || (s.kind === 'arg' && s.hash !== arg));
+
+  return {
+    stated,
+    mismatches,
+    wasmConfirmed: stated.some(s => s.kind === 'wasm' && s.hash === wasm),
+    argConfirmed: stated.some(s => s.kind === 'arg' && s.hash === arg),
+  };
+}
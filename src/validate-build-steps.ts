@@ -0,0 +1,437 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { BuildProfileRegistry, CommandAllowlist, allowedCommands, getBuildProfile, loadBuildProfiles, matchExpectedOutput } from './build-profiles.js';
+
+interface BuildSteps {
+  repoUrl: string;
+  buildProfile: string;
+  steps: string[];
+  wasmOutputPath: string;
+  extractor?: 'override' | 'recipe' | 'rules' | 'llm';
+}
+
+type ShellToken =
+  | { type: 'word'; value: string; expands: boolean; substitutes: boolean }
+  | { type: 'op'; value: string };
+
+export interface SimpleCommand {
+  // Leading NAME=value assignments
+  assignments: string[];
+  words: string[];
+  // Target of each > / >> / < redirection
+  redirects: string[];
+  expands: boolean;
+  substitutes: boolean;
+  // The operator joining it to the next command, e.g. && or |; null for the last
+  then: string | null;
+}
+
+export interface StepVerdict {
+  step: string;
+  accepted: boolean;
+  // Why the step was accepted, or every rule it broke
+  reasons: string[];
+}
+
+export interface StepValidationReport {
+  buildProfile: string;
+  extractor: string | null;
+  accepted: boolean;
+  wasmOutputPath: { path: string; accepted: boolean; reason: string };
+  steps: StepVerdict[];
+}
+
+// Commands rejected outright, whatever the profile, with the reason shown in the report
+const DENIED_COMMANDS: Record<string, string> = {
+  curl: 'fetches from the network',
+  wget: 'fetches from the network',
+  nc: 'opens network connections',
+  ncat: 'opens network connections',
+  netcat: 'opens network connections',
+  socat: 'opens network connections',
+  ssh: 'opens network connections',
+  scp: 'copies files over the network',
+  rsync: 'can copy files over the network',
+  ftp: 'fetches from the network',
+  telnet: 'opens network connections',
+  env: 'dumps or alters the environment, which holds secrets such as BAZEL_REMOTE_CACHE_TOKEN',
+  printenv: 'dumps the environment, which holds secrets such as BAZEL_REMOTE_CACHE_TOKEN',
+  set: 'dumps or alters shell state',
+  export: 'dumps or alters the environment',
+  declare: 'dumps or alters shell state',
+  git: 'operations are done by the verifier itself, not by extracted steps',
+  eval: 'runs arbitrary shell code',
+  exec: 'replaces the build shell',
+  source: 'runs arbitrary shell code',
+  '.': 'runs arbitrary shell code',
+  sudo: 'escalates privileges',
+  su: 'switches user',
+  chmod: 'changes file permissions',
+  chown: 'changes file ownership',
+  rm: 'deletes files',
+};
+
+// Shells may only run a script file from the repository, never -c or stdin
+const SHELLS = ['sh', 'bash', 'zsh'];
+
+// Assignments that change how later commands are resolved or loaded
+const DENIED_ASSIGNMENTS = /^(PATH|LD_[A-Z_]+|BASH_ENV|ENV|IFS|PROMPT_COMMAND)=/;
+
+const OPERATORS = ['2>&1', '&&', '||', '>>', '<<', '&>', '2>', '|', ';', '&', '>', '<'];
+
+/**
+ * Tokenize a step the way a POSIX shell would split it into words and
+ * operators. Tracks whether a word expands a variable or runs a command
+ * substitution, since those can't be judged statically.
+ */
+export function tokenizeShell(step: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let word = '';
+  let inWord = false;
+  let expands = false;
+  let substitutes = false;
+  // Open $( ... ) substitutions, whose parentheses aren't subshells
+  let substitutionDepth = 0;
+
+  const flush = () => {
+    if (inWord) {
+      tokens.push({ type: 'word', value: word, expands, substitutes });
+    }
+    word = '';
+    inWord = false;
+    expands = false;
+    substitutes = false;
+  };
+
+  for (let i = 0; i < step.length; i++) {
+    const ch = step[i];
+
+    if (ch === "'") {
+      const end = step.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new Error('unterminated single quote');
+      }
+      word += step.slice(i + 1, end);
+      inWord = true;
+      i = end;
+    } else if (ch === '"') {
+      let j = i + 1;
+      for (; j < step.length && step[j] !== '"'; j++) {
+        if (step[j] === '\\' && j + 1 < step.length) {
+          word += step[++j];
+          continue;
+        }
+        if (step[j] === '$') {
+          expands = true;
+          substitutes ||= step[j + 1] === '(';
+        }
+        if (step[j] === '`') {
+          substitutes = true;
+        }
+        word += step[j];
+      }
+      if (j >= step.length) {
+        throw new Error('unterminated double quote');
+      }
+      inWord = true;
+      i = j;
+    } else if (ch === '\\' && step[i + 1] === '\n') {
+      // Line continuation
+      i++;
+    } else if (ch === '\\') {
+      word += step[i + 1] ?? '';
+      inWord = true;
+      i++;
+    } else if (ch === '\n') {
+      // A newline ends a command just like ;
+      flush();
+      tokens.push({ type: 'op', value: ';' });
+    } else if (/\s/.test(ch)) {
+      flush();
+    } else if (ch === '(' && word.endsWith('$') && inWord) {
+      substitutionDepth++;
+      word += ch;
+    } else if (ch === ')' && substitutionDepth > 0) {
+      substitutionDepth--;
+      word += ch;
+    } else if (ch === '(' || ch === ')') {
+      throw new Error('subshells are not supported');
+    } else {
+      const op = OPERATORS.find(o => step.startsWith(o, i));
+      // "2>" is only an operator at the start of a word
+      if (op && !(op === '2>' && inWord)) {
+        if ((op === '<' || op === '>') && step[i + 1] === '(') {
+          throw new Error('process substitution is not supported');
+        }
+        flush();
+        tokens.push({ type: 'op', value: op });
+        i += op.length - 1;
+        continue;
+      }
+      if (ch === '$') {
+        expands = true;
+        substitutes ||= step[i + 1] === '(';
+      }
+      if (ch === '`') {
+        substitutes = true;
+      }
+      word += ch;
+      inWord = true;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+// Split a step into the simple commands joined by pipes, && / || and ;
+export function parseShellStep(step: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { assignments: [], words: [], redirects: [], expands: false, substitutes: false, then: null };
+  const tokens = tokenizeShell(step);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'op') {
+      if (['>', '>>', '<', '&>', '2>'].includes(token.value)) {
+        const target = tokens[++i];
+        if (!target || target.type !== 'word') {
+          throw new Error(`redirection ${token.value} has no target`);
+        }
+        current.redirects.push(target.value);
+        current.expands ||= target.expands;
+        current.substitutes ||= target.substitutes;
+      } else if (token.value === '2>&1') {
+        // Merging stderr into stdout writes nowhere new
+      } else if (token.value === '<<') {
+        throw new Error('here-documents are not supported');
+      } else {
+        current.then = token.value;
+        commands.push(current);
+        current = { assignments: [], words: [], redirects: [], expands: false, substitutes: false, then: null };
+      }
+      continue;
+    }
+
+    current.expands ||= token.expands;
+    current.substitutes ||= token.substitutes;
+    if (current.words.length === 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(token.value)) {
+      current.assignments.push(token.value);
+    } else {
+      current.words.push(token.value);
+    }
+  }
+  commands.push(current);
+  return commands.filter(c => c.words.length > 0 || c.assignments.length > 0 || c.redirects.length > 0);
+}
+
+// Absolute, home-relative or parent-relative paths point outside the checkout
+export function isOutsideRepo(path: string): boolean {
+  if (path === '/dev/null') {
+    return false;
+  }
+  return path.startsWith('/') || path.startsWith('~') || path.split('/').includes('..');
+}
+
+// A script shipped in the repository at the proposed commit, e.g. ./ci/container/build-ic.sh
+function isRepoScript(command: string): boolean {
+  return command.includes('/') && !isOutsideRepo(command);
+}
+
+function pathArguments(words: string[], command: string): string[] {
+  return words.flatMap(word => {
+    // Bazel labels like //rs/nns/governance:governance-canister aren't paths
+    if (command === 'bazel' && word.startsWith('//')) {
+      return [];
+    }
+    const value = word.startsWith('-') && word.includes('=') ? word.slice(word.indexOf('=') + 1) : word;
+    return value ? [value] : [];
+  });
+}
+
+function checkCommand(command: SimpleCommand, commands: CommandAllowlist, profile: string): { rejected: string[]; accepted: string[] } {
+  const rejected: string[] = [];
+  const accepted: string[] = [];
+  const [name, ...args] = command.words;
+
+  if (command.substitutes) {
+    rejected.push('uses command substitution, which can run arbitrary commands');
+  } else if (command.expands) {
+    rejected.push('expands shell variables, which could leak secrets from the environment');
+  }
+
+  for (const assignment of command.assignments) {
+    if (DENIED_ASSIGNMENTS.test(assignment)) {
+      rejected.push(`sets ${assignment.split('=')[0]}, which changes how commands are resolved`);
+    }
+  }
+
+  for (const target of command.redirects) {
+    if (isOutsideRepo(target)) {
+      rejected.push(`redirects to ${target}, outside the repository`);
+    }
+  }
+
+  if (!name) {
+    return { rejected, accepted };
+  }
+
+  if (name === 'cd') {
+    // A bare cd goes to $HOME and cd - to the previous directory, both outside the checkout
+    if (args.length !== 1 || args[0].startsWith('-')) {
+      rejected.push('cd must name exactly one directory inside the repository');
+    } else if (isOutsideRepo(args[0])) {
+      // Rejected with the other path arguments below
+    } else if (command.then !== '&&') {
+      // Each step runs in a fresh shell in the checkout, so the directory only carries over an && chain
+      rejected.push(`cd ${args[0]} must be followed by && and the commands to run there, as each step starts in the repository root`);
+    } else {
+      accepted.push(`cd ${args[0]} stays inside the repository`);
+    }
+  } else if (name in DENIED_COMMANDS) {
+    rejected.push(`${name} ${DENIED_COMMANDS[name]}`);
+  } else if (SHELLS.includes(name)) {
+    const script = args[0];
+    if (script && !script.startsWith('-') && isRepoScript(script.includes('/') ? script : `./${script}`)) {
+      accepted.push(`${name} runs ${script}, a script from the repository at the proposal commit`);
+    } else {
+      rejected.push(`${name} ${script ? `${script} ` : ''}runs arbitrary shell code (only repository scripts may be run)`);
+    }
+  } else if (isRepoScript(name)) {
+    accepted.push(`${name} is a script from the repository at the proposal commit`);
+  } else if (name in commands) {
+    const subcommands = commands[name];
+    const subcommand = args.find(a => !a.startsWith('-'));
+    if (subcommands && (!subcommand || !subcommands.includes(subcommand))) {
+      rejected.push(`${name} ${subcommand ?? ''}`.trim() + ` is not allowed for profile ${profile} (allowed: ${subcommands.map(s => `${name} ${s}`).join(', ')})`);
+    } else {
+      accepted.push(`${subcommands ? `${name} ${subcommand}` : name} is on the ${profile} allowlist`);
+    }
+  } else if (isOutsideRepo(name)) {
+    rejected.push(`${name} is outside the repository`);
+  } else {
+    rejected.push(`${name} is not on the ${profile} allowlist`);
+  }
+
+  for (const path of pathArguments(args, name)) {
+    if (isOutsideRepo(path)) {
+      rejected.push(`argument ${path} refers to a path outside the repository`);
+    }
+  }
+
+  return { rejected, accepted };
+}
+
+/**
+ * Judge one extracted step against the profile's allowlist from
+ * config/build-profiles.json. Every simple command in a pipeline or && chain
+ * must pass for the step to be accepted.
+ */
+export function validateStep(step: string, profile: string, registry: BuildProfileRegistry = loadBuildProfiles()): StepVerdict {
+  let commands: SimpleCommand[];
+  try {
+    commands = parseShellStep(step);
+  } catch (err) {
+    return { step, accepted: false, reasons: [`could not be parsed as shell: ${err instanceof Error ? err.message : err}`] };
+  }
+
+  if (commands.length === 0) {
+    return { step, accepted: false, reasons: ['is empty'] };
+  }
+
+  const commandsAllowed = allowedCommands(getBuildProfile(profile, registry), registry);
+  const rejected: string[] = [];
+  const accepted: string[] = [];
+  for (const command of commands) {
+    const result = checkCommand(command, commandsAllowed, profile);
+    rejected.push(...result.rejected);
+    accepted.push(...result.accepted);
+  }
+
+  return rejected.length > 0
+    ? { step, accepted: false, reasons: rejected }
+    : { step, accepted: true, reasons: accepted };
+}
+
+function describeOutputPath(path: string, profileName: string, registry: BuildProfileRegistry): string {
+  if (isOutsideRepo(path)) {
+    return 'points outside the repository';
+  }
+  const profile = getBuildProfile(profileName, registry);
+  const expected = matchExpectedOutput(profile, path);
+  // Unexpected locations are reported but not rejected; proposals do move artifacts
+  return expected
+    ? `is inside the repository and matches the expected output ${expected}`
+    : `is inside the repository but not in the ${profileName} profile's expected outputs (${profile.outputs.join(', ')})`;
+}
+
+export function validateBuildSteps(buildSteps: BuildSteps, registry: BuildProfileRegistry = loadBuildProfiles()): StepValidationReport {
+  const profile = buildSteps.buildProfile;
+  const steps = buildSteps.steps.map(step => validateStep(step, profile, registry));
+  const wasmOutputPath = {
+    path: buildSteps.wasmOutputPath,
+    accepted: !isOutsideRepo(buildSteps.wasmOutputPath),
+    reason: describeOutputPath(buildSteps.wasmOutputPath, profile, registry),
+  };
+
+  return {
+    buildProfile: profile,
+    extractor: buildSteps.extractor ?? null,
+    accepted: wasmOutputPath.accepted && steps.length > 0 && steps.every(s => s.accepted),
+    wasmOutputPath,
+    steps,
+  };
+}
+
+async function main() {
+  let buildSteps: BuildSteps;
+  try {
+    buildSteps = JSON.parse(readFileSync('build-steps.json', 'utf-8'));
+  } catch {
+    console.error('Could not read build-steps.json. Run extract-build-steps.ts first.');
+    process.exit(1);
+  }
+
+  console.log('');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('  STEP 3: VALIDATE BUILD STEPS BEFORE EXECUTION');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('');
+  console.log('TRUST ASSUMPTION: Extracted steps run with the Docker socket and the');
+  console.log('build cache token available. Each step is parsed as shell and checked');
+  console.log('against the build profile\'s allowlist; network fetches, environment');
+  console.log('dumps, git operations and writes outside the repository are rejected.');
+  console.log('');
+
+  const report = validateBuildSteps(buildSteps);
+
+  console.log(`Build profile: ${report.buildProfile}`);
+  console.log(`Extractor:     ${report.extractor ?? 'unknown'}`);
+  console.log('');
+  report.steps.forEach((verdict, i) => {
+    console.log(`  ${verdict.accepted ? '✅' : '❌'} ${i + 1}. ${verdict.step}`);
+    verdict.reasons.forEach(reason => console.log(`       ${reason}`));
+  });
+  console.log(`  ${report.wasmOutputPath.accepted ? '✅' : '❌'} WASM output path ${report.wasmOutputPath.path} ${report.wasmOutputPath.reason}`);
+  if (report.steps.length === 0) {
+    console.log('  ❌ No build steps to run');
+  }
+
+  writeFileSync('step-validation.json', JSON.stringify(report, null, 2));
+  console.log('');
+  console.log('Wrote step-validation.json');
+
+  if (!report.accepted) {
+    console.error('');
+    console.error('❌ BUILD STEPS REJECTED: refusing to execute them.');
+    process.exit(1);
+  }
+  console.log('✅ All build steps accepted');
+}
+
+// Only run main if this is the entry point
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch((err) => {
+    console.error('Error validating build steps:', err);
+    process.exit(1);
+  });
+}
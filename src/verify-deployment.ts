@@ -0,0 +1,153 @@
+import { HttpAgent, CanisterStatus } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
+import { readFileSync, writeFileSync, appendFileSync } from 'fs';
+import { NNS_FUNCTION_ADD_SNS_WASM } from './nns-functions.js';
+import { parseNetworkArgs, resolveNetworkConfig } from './network-config.js';
+
+interface ProposalData {
+  proposalId: string;
+  title: string;
+  actionType: string;
+  nnsFunction: number | null;
+  expectedWasmHash: string | null;
+  canisterId: string | null;
+}
+
+export type DeploymentStatus = 'verified' | 'mismatch' | 'not_installed' | 'not_applicable';
+
+export interface DeploymentVerification {
+  proposalId: string;
+  canisterId: string | null;
+  network: string;
+  expectedWasmHash: string | null;
+  // Read from the certified canister/<id>/module_hash path; null if no module is installed
+  deployedModuleHash: string | null;
+  status: DeploymentStatus;
+  checkedAt: string;
+}
+
+/**
+ * Read a canister's installed module hash from the certified state tree.
+ * The agent verifies the certificate against the network's root key.
+ */
+export async function readModuleHash(agent: HttpAgent, canisterId: string): Promise<string | null> {
+  const status = await CanisterStatus.request({
+    canisterId: Principal.fromText(canisterId),
+    agent,
+    paths: ['module_hash'],
+  });
+  const moduleHash = status.get('module_hash');
+  return typeof moduleHash === 'string' ? moduleHash.toLowerCase() : null;
+}
+
+// Proposals whose WASM isn't installed into canisterId have nothing to check after execution
+export function isDeploymentCheckable(proposal: ProposalData): boolean {
+  if (!proposal.canisterId || !proposal.expectedWasmHash) {
+    return false;
+  }
+  // AddSnsWasm stores the WASM in SNS-W for future SNS deployments; it isn't installed anywhere
+  return !(proposal.actionType === 'ExecuteNnsFunction' && proposal.nnsFunction === NNS_FUNCTION_ADD_SNS_WASM);
+}
+
+export function classifyDeployment(expectedWasmHash: string | null, deployedModuleHash: string | null): DeploymentStatus {
+  if (!expectedWasmHash) {
+    return 'not_applicable';
+  }
+  if (!deployedModuleHash) {
+    return 'not_installed';
+  }
+  return deployedModuleHash.toLowerCase() === expectedWasmHash.toLowerCase() ? 'verified' : 'mismatch';
+}
+
+function writeGitHubSummary(content: string) {
+  const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+  if (summaryFile) {
+    appendFileSync(summaryFile, content + '\n');
+  }
+}
+
+async function main() {
+  const network = resolveNetworkConfig(parseNetworkArgs(process.argv.slice(2)).overrides);
+
+  let proposalData: ProposalData;
+  try {
+    proposalData = JSON.parse(readFileSync('proposal.json', 'utf-8'));
+  } catch {
+    console.error('Could not read proposal.json. Run fetch-proposal.ts first.');
+    process.exit(1);
+  }
+
+  console.log('');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('  POST-EXECUTION: DEPLOYED MODULE HASH VERIFICATION');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('');
+  console.log('TRUST ASSUMPTION: Reading canister/<id>/module_hash from the certified');
+  console.log('state tree. The subnet signs this value, so it reflects the WASM that is');
+  console.log('actually installed, independent of any replica or boundary node.');
+  console.log('');
+  console.log(`Proposal ID:     ${proposalData.proposalId}`);
+  console.log(`Target Canister: ${proposalData.canisterId || 'Not found'}`);
+  console.log(`Network:         ${network.name} (${network.hosts[0]})`);
+  console.log('');
+
+  let deployedModuleHash: string | null = null;
+  let status: DeploymentStatus = 'not_applicable';
+
+  if (isDeploymentCheckable(proposalData)) {
+    const agent = new HttpAgent({ host: network.hosts[0], shouldFetchRootKey: network.fetchRootKey });
+    deployedModuleHash = await readModuleHash(agent, proposalData.canisterId!);
+    status = classifyDeployment(proposalData.expectedWasmHash, deployedModuleHash);
+  } else {
+    console.log('This proposal does not install its WASM into a known canister;');
+    console.log('there is no deployed module to check.');
+  }
+
+  const result: DeploymentVerification = {
+    proposalId: proposalData.proposalId,
+    canisterId: proposalData.canisterId,
+    network: network.name,
+    expectedWasmHash: proposalData.expectedWasmHash,
+    deployedModuleHash,
+    status,
+    checkedAt: new Date().toISOString(),
+  };
+
+  writeFileSync('deployment-verification.json', JSON.stringify(result, null, 2));
+
+  const statusText: Record<DeploymentStatus, string> = {
+    verified: '✅ DEPLOYED MODULE MATCHES PROPOSAL',
+    mismatch: '❌ DEPLOYED MODULE DOES NOT MATCH PROPOSAL',
+    not_installed: '❌ NO MODULE INSTALLED',
+    not_applicable: '⏭️ NOT APPLICABLE',
+  };
+
+  console.log(`Expected WASM hash:   ${proposalData.expectedWasmHash || 'Not found in proposal'}`);
+  console.log(`Deployed module hash: ${deployedModuleHash || 'None'}`);
+  console.log('');
+  console.log(`RESULT: ${statusText[status]}`);
+  console.log('Wrote deployment-verification.json');
+
+  writeGitHubSummary(`## Deployment Verification: ${statusText[status]}
+
+**Proposal ID:** ${proposalData.proposalId}
+**Title:** ${proposalData.title}
+**Canister:** \`${proposalData.canisterId || 'n/a'}\`
+
+| Hash Type | Value |
+|-----------|-------|
+| Proposal | \`${proposalData.expectedWasmHash || 'Not found in proposal'}\` |
+| Deployed (certified) | \`${deployedModuleHash || 'None'}\` |
+`);
+
+  process.exit(status === 'verified' || status === 'not_applicable' ? 0 : 1);
+}
+
+// Only run main if this is the entry point
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch((err) => {
+    console.error('Error verifying deployment:', err);
+    process.exit(1);
+  });
+}
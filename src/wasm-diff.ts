@@ -0,0 +1,152 @@
+import { existsSync, readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { SectionDifference, decompressWasm, diffWasmSections } from './wasm-sections.js';
+
+// Where the workflow puts the WASM downloaded from a previous verification run
+export const DEFAULT_REFERENCE_PATH = 'reference/canister.wasm';
+
+export type ReferenceSource = 'cli' | 'env' | 'artifact';
+
+export interface ReferenceWasm {
+  path: string;
+  source: ReferenceSource;
+}
+
+export interface WasmDiff {
+  reference: ReferenceWasm;
+  referenceSha256: string;
+  // The reference is the module the proposal expects, so the diff shows exactly what is wrong with the build
+  referenceMatchesExpected: boolean;
+  // Both files decompress to the same module (only the gzip wrapper differs)
+  identicalModules: boolean;
+  // Only custom sections (metadata, names, debug info) differ; the code and data are the same
+  onlyCustomSections: boolean;
+  // Built module size minus reference module size, after decompression
+  moduleSizeDelta: number;
+  // a is the reference, b is the built module
+  differences: SectionDifference[];
+}
+
+/**
+ * Find a reference WASM to diff the build against, in order of precedence:
+ * --reference <path>, REFERENCE_WASM, then an artifact from a previous run.
+ */
+export function resolveReferenceWasm(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  artifactPath: string = DEFAULT_REFERENCE_PATH
+): ReferenceWasm | null {
+  const flag = argv.indexOf('--reference');
+  if (flag !== -1 && argv[flag + 1]) {
+    return { path: argv[flag + 1], source: 'cli' };
+  }
+  if (env.REFERENCE_WASM) {
+    return { path: env.REFERENCE_WASM, source: 'env' };
+  }
+  return existsSync(artifactPath) ? { path: artifactPath, source: 'artifact' } : null;
+}
+
+function sha256(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+export function sizeDelta(difference: SectionDifference): number {
+  return (difference.b?.size ?? 0) - (difference.a?.size ?? 0);
+}
+
+export function diffAgainstReference(built: Buffer, referenceBytes: Buffer, reference: ReferenceWasm, expectedWasmHash: string | null): WasmDiff {
+  const referenceSha256 = sha256(referenceBytes);
+  const differences = diffWasmSections(referenceBytes, built);
+  return {
+    reference,
+    referenceSha256,
+    referenceMatchesExpected: !!expectedWasmHash && referenceSha256 === expectedWasmHash.toLowerCase(),
+    identicalModules: differences.length === 0,
+    onlyCustomSections: differences.length > 0 && differences.every(d => d.name.startsWith('custom:')),
+    moduleSizeDelta: decompressWasm(built).length - decompressWasm(referenceBytes).length,
+    differences,
+  };
+}
+
+export function diffAgainstReferenceFile(builtPath: string, reference: ReferenceWasm, expectedWasmHash: string | null): WasmDiff {
+  return diffAgainstReference(readFileSync(builtPath), readFileSync(reference.path), reference, expectedWasmHash);
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function diffVerdict(diff: WasmDiff): string {
+  if (diff.identicalModules) {
+    return '✅ SAME MODULE';
+  }
+  return diff.onlyCustomSections ? '⚠️ ONLY CUSTOM SECTIONS DIFFER' : '❌ CODE OR DATA DIFFERS';
+}
+
+export function formatWasmDiffSection(diff: WasmDiff): string {
+  let section = `### Section Diff Against Reference: ${diffVerdict(diff)}
+
+| Property | Value |
+|----------|-------|
+| Reference | \`${diff.reference.path}\` (${diff.reference.source}) |
+| Reference SHA-256 | \`${diff.referenceSha256}\`${diff.referenceMatchesExpected ? ' (matches the proposal)' : ''} |
+| Module size change | ${signed(diff.moduleSizeDelta)} bytes |
+`;
+
+  if (diff.identicalModules) {
+    section += `
+> Both files decompress to the same module, so only the compression differs.
+`;
+  } else if (diff.onlyCustomSections) {
+    section += `
+> Only custom sections differ. The code and data are the same, so look for embedded metadata such as paths, timestamps or the commit.
+`;
+  }
+
+  if (diff.differences.length > 0) {
+    section += `
+| Section | Reference size | Built size | Change |
+|---------|----------------|------------|--------|
+${diff.differences.map(d => `| \`${d.name}\` | ${d.a?.size ?? 'missing'} | ${d.b?.size ?? 'missing'} | ${d.a && d.b ? `${signed(sizeDelta(d))} bytes` : d.a ? 'removed' : 'added'} |`).join('\n')}
+`;
+  }
+
+  return section;
+}
+
+export function printWasmDiff(diff: WasmDiff) {
+  console.log(`Reference:        ${diff.reference.path} (${diff.reference.source})`);
+  console.log(`Reference SHA256: ${diff.referenceSha256}${diff.referenceMatchesExpected ? ' (matches the proposal)' : ''}`);
+  console.log(`Module size:      ${signed(diff.moduleSizeDelta)} bytes compared to the reference`);
+  console.log(`Result:           ${diffVerdict(diff)}`);
+  for (const d of diff.differences) {
+    const change = d.a && d.b ? `${signed(sizeDelta(d))} bytes` : d.a ? 'only in reference' : 'only in build';
+    console.log(`  ${d.name.padEnd(40)} ${String(d.a?.size ?? '-').padStart(10)} -> ${String(d.b?.size ?? '-').padEnd(10)} ${change}`);
+  }
+}
+
+async function main() {
+  const [builtPath, referencePath] = process.argv.slice(2);
+  if (!builtPath || !referencePath) {
+    console.error('Usage: npx tsx src/wasm-diff.ts <built.wasm[.gz]> <reference.wasm[.gz]>');
+    process.exit(1);
+  }
+
+  const diff = diffAgainstReferenceFile(builtPath, { path: referencePath, source: 'cli' }, null);
+
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log('  WASM SECTION DIFF');
+  console.log('═══════════════════════════════════════════════════════════════');
+  printWasmDiff(diff);
+
+  process.exit(diff.identicalModules ? 0 : 1);
+}
+
+// Only run main if this is the entry point
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch((err) => {
+    console.error('Error diffing WASM:', err);
+    process.exit(1);
+  });
+}
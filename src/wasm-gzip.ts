@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import { decompressWasm } from './wasm-sections.js';
+
+const FLAG_NAMES: [number, string][] = [
+  [0x01, 'FTEXT'],
+  [0x02, 'FHCRC'],
+  [0x04, 'FEXTRA'],
+  [0x08, 'FNAME'],
+  [0x10, 'FCOMMENT'],
+];
+
+// Operating system byte from RFC 1952
+const OS_NAMES: Record<number, string> = {
+  0: 'FAT',
+  3: 'Unix',
+  7: 'Macintosh',
+  10: 'TOPS-20',
+  11: 'NTFS',
+  255: 'unknown',
+};
+
+export interface GzipHeader {
+  flags: string[];
+  // Seconds since the epoch; 0 when the compressor didn't record one (gzip -n)
+  mtime: number;
+  // 2 = maximum compression, 4 = fastest
+  extraFlags: number;
+  os: number;
+  osName: string;
+  fileName: string | null;
+  comment: string | null;
+}
+
+export interface ArtifactContents {
+  sha256: string;
+  // Hash of the module after decompression; equals sha256 for an uncompressed module
+  moduleSha256: string;
+  gzip: GzipHeader | null;
+}
+
+/**
+ * - same-wasm-different-gzip: the modules are identical, only the compression differs
+ * - different-wasm: the modules themselves differ
+ * - undetermined: nothing to compare the module with (no reference, no matching recompression)
+ */
+export type GzipVerdict = 'same-wasm-different-gzip' | 'different-wasm' | 'undetermined';
+
+export interface HeaderDifference {
+  field: keyof GzipHeader | 'compressed';
+  built: string;
+  reference: string;
+}
+
+export interface GzipComparison {
+  verdict: GzipVerdict;
+  reason: string;
+  built: ArtifactContents;
+  reference: ArtifactContents | null;
+  headerDifferences: HeaderDifference[];
+}
+
+function sha256(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function readZeroTerminated(bytes: Buffer, offset: number): { value: string; next: number } {
+  const end = bytes.indexOf(0, offset);
+  const stop = end === -1 ? bytes.length : end;
+  return { value: bytes.subarray(offset, stop).toString('latin1'), next: stop + 1 };
+}
+
+export function parseGzipHeader(bytes: Buffer): GzipHeader | null {
+  if (bytes.length < 10 || bytes[0] !== 0x1f || bytes[1] !== 0x8b) {
+    return null;
+  }
+
+  const flagByte = bytes[3];
+  let pos = 10;
+  if (flagByte & 0x04) {
+    pos += 2 + bytes.readUInt16LE(pos);
+  }
+  let fileName: string | null = null;
+  if (flagByte & 0x08) {
+    ({ value: fileName, next: pos } = readZeroTerminated(bytes, pos));
+  }
+  let comment: string | null = null;
+  if (flagByte & 0x10) {
+    ({ value: comment } = readZeroTerminated(bytes, pos));
+  }
+
+  return {
+    flags: FLAG_NAMES.filter(([bit]) => flagByte & bit).map(([, name]) => name),
+    mtime: bytes.readUInt32LE(4),
+    extraFlags: bytes[8],
+    os: bytes[9],
+    osName: OS_NAMES[bytes[9]] ?? `OS ${bytes[9]}`,
+    fileName,
+    comment,
+  };
+}
+
+export function describeArtifact(bytes: Buffer): ArtifactContents {
+  return { sha256: sha256(bytes), moduleSha256: sha256(decompressWasm(bytes)), gzip: parseGzipHeader(bytes) };
+}
+
+function headerValue(header: GzipHeader | null, field: keyof GzipHeader): string {
+  if (!header) return '-';
+  const value = header[field];
+  return Array.isArray(value) ? value.join(',') || 'none' : String(value ?? 'none');
+}
+
+export function diffGzipHeaders(built: GzipHeader | null, reference: GzipHeader | null): HeaderDifference[] {
+  if (!built !== !reference) {
+    return [{ field: 'compressed', built: built ? 'yes' : 'no', reference: reference ? 'yes' : 'no' }];
+  }
+  const fields: (keyof GzipHeader)[] = ['flags', 'mtime', 'extraFlags', 'os', 'fileName', 'comment'];
+  return fields
+    .map(field => ({ field, built: headerValue(built, field), reference: headerValue(reference, field) }))
+    .filter(d => d.built !== d.reference);
+}
+
+// The first zlib level whose output has the expected hash, if the release was compressed with other settings
+function recompressionMatch(module: Buffer, expectedWasmHash: string): number | null {
+  for (let level = 9; level >= 1; level--) {
+    if (sha256(gzipSync(module, { level })) === expectedWasmHash) {
+      return level;
+    }
+  }
+  return null;
+}
+
+/**
+ * Explain a hash mismatch by looking through the gzip wrapper. The on-chain
+ * hash still decides the verdict; this only says where to look.
+ */
+export function classifyHashMismatch(built: Buffer, expectedWasmHash: string | null, reference: Buffer | null): GzipComparison {
+  const builtContents = describeArtifact(built);
+  const referenceContents = reference ? describeArtifact(reference) : null;
+  const headerDifferences = referenceContents ? diffGzipHeaders(builtContents.gzip, referenceContents.gzip) : [];
+  const expected = expectedWasmHash?.toLowerCase() ?? null;
+  const result = { built: builtContents, reference: referenceContents, headerDifferences };
+
+  if (expected && builtContents.gzip && builtContents.moduleSha256 === expected) {
+    return { ...result, verdict: 'same-wasm-different-gzip', reason: 'The expected hash is the hash of the decompressed built module' };
+  }
+  if (referenceContents) {
+    const against = referenceContents.sha256 === expected ? 'the expected artifact' : 'the reference';
+    return builtContents.moduleSha256 === referenceContents.moduleSha256
+      ? { ...result, verdict: 'same-wasm-different-gzip', reason: `The decompressed module is identical to ${against}` }
+      : { ...result, verdict: 'different-wasm', reason: `The decompressed module differs from ${against}` };
+  }
+  if (expected) {
+    const level = recompressionMatch(decompressWasm(built), expected);
+    if (level !== null) {
+      return { ...result, verdict: 'same-wasm-different-gzip', reason: `Recompressing the built module with gzip level ${level} reproduces the expected hash` };
+    }
+  }
+  return { ...result, verdict: 'undetermined', reason: 'No reference module to compare with, and recompressing the built module does not reproduce the expected hash' };
+}
+
+export function gzipVerdictLabel(verdict: GzipVerdict): string {
+  switch (verdict) {
+    case 'same-wasm-different-gzip':
+      return '⚠️ SAME WASM, DIFFERENT GZIP WRAPPER';
+    case 'different-wasm':
+      return '❌ DIFFERENT WASM';
+    case 'undetermined':
+      return '❔ UNDETERMINED';
+  }
+}
+
+function describeHeader(header: GzipHeader | null): string {
+  if (!header) return 'not gzipped';
+  return `mtime ${header.mtime}, OS ${header.osName}, XFL ${header.extraFlags}, flags ${header.flags.join(',') || 'none'}${header.fileName ? `, name ${header.fileName}` : ''}`;
+}
+
+export function formatGzipComparisonSection(comparison: GzipComparison): string {
+  let section = `### Mismatch Diagnosis: ${gzipVerdictLabel(comparison.verdict)}
+
+> ${comparison.reason}. The on-chain hash still decides the result.
+
+| Artifact | File SHA-256 | Module SHA-256 | Gzip header |
+|----------|--------------|----------------|-------------|
+| Built | \`${comparison.built.sha256}\` | \`${comparison.built.moduleSha256}\` | ${describeHeader(comparison.built.gzip)} |
+`;
+  if (comparison.reference) {
+    section += `| Reference | \`${comparison.reference.sha256}\` | \`${comparison.reference.moduleSha256}\` | ${describeHeader(comparison.reference.gzip)} |
+`;
+  }
+
+  if (comparison.headerDifferences.length > 0) {
+    section += `
+| Gzip header field | Built | Reference |
+|-------------------|-------|-----------|
+${comparison.headerDifferences.map(d => `| ${d.field} | ${d.built} | ${d.reference} |`).join('\n')}
+`;
+  }
+
+  return section;
+}
+
+export function printGzipComparison(comparison: GzipComparison) {
+  console.log(`Built file:       ${comparison.built.sha256}`);
+  console.log(`Built module:     ${comparison.built.moduleSha256}`);
+  console.log(`Built gzip:       ${describeHeader(comparison.built.gzip)}`);
+  if (comparison.reference) {
+    console.log(`Reference file:   ${comparison.reference.sha256}`);
+    console.log(`Reference module: ${comparison.reference.moduleSha256}`);
+    console.log(`Reference gzip:   ${describeHeader(comparison.reference.gzip)}`);
+  }
+  for (const d of comparison.headerDifferences) {
+    console.log(`  ${d.field}: ${d.built} (built) vs ${d.reference} (reference)`);
+  }
+  console.log(`Diagnosis:        ${gzipVerdictLabel(comparison.verdict)}`);
+  console.log(`                  ${comparison.reason}`);
+}
@@ -0,0 +1,254 @@
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { WasmSection, decompressWasm, parseWasmSections, readLeb128 } from './wasm-sections.js';
+
+const EXPORT_KINDS: Record<number, WasmExport['kind']> = {
+  0: 'func',
+  1: 'table',
+  2: 'memory',
+  3: 'global',
+  4: 'tag',
+};
+
+// Metadata is stored in custom sections named "icp:public <name>" or "icp:private <name>"
+const METADATA_SECTION = /^custom:icp:(public|private) (.+)$/;
+
+// Longer metadata (e.g. candid:service) is only summarized by size in reports
+const MAX_INLINE_METADATA = 100;
+
+export interface WasmExport {
+  name: string;
+  kind: 'func' | 'table' | 'memory' | 'global' | 'tag' | 'unknown';
+}
+
+export interface WasmMetadata {
+  name: string;
+  visibility: 'public' | 'private';
+  size: number;
+  // Contents decoded as UTF-8 (every metadata section the IC tooling writes is text)
+  value: string;
+}
+
+export interface WasmInspection {
+  gzipped: boolean;
+  // Size and hash of the module itself, after decompression
+  moduleSize: number;
+  moduleSha256: string;
+  sections: WasmSection[];
+  exports: WasmExport[];
+  metadata: WasmMetadata[];
+}
+
+/**
+ * - match: the module was built from the proposal's commit
+ * - mismatch: the module says it was built from a different commit
+ * - missing: the module carries no git_commit_id metadata
+ * - no-commit: the proposal has no commit to compare against
+ */
+export type EmbeddedCommitStatus = 'match' | 'mismatch' | 'missing' | 'no-commit';
+
+export interface EmbeddedCommitCheck {
+  status: EmbeddedCommitStatus;
+  embedded: string | null;
+  expected: string | null;
+}
+
+function readName(bytes: Buffer, offset: number): { name: string; next: number } {
+  const { value: length, next: start } = readLeb128(bytes, offset);
+  return { name: bytes.subarray(start, start + length).toString('utf-8'), next: start + length };
+}
+
+function parseExports(bytes: Buffer, section: WasmSection): WasmExport[] {
+  const exports: WasmExport[] = [];
+  let { value: count, next: pos } = readLeb128(bytes, section.offset);
+  while (count-- > 0) {
+    const { name, next } = readName(bytes, pos);
+    exports.push({ name, kind: EXPORT_KINDS[bytes[next]] ?? 'unknown' });
+    pos = readLeb128(bytes, next + 1).next;
+  }
+  return exports;
+}
+
+/**
+ * Inspect a module (gzipped or not): its sections with their sizes, its
+ * exports (for canisters, the "canister_update <method>" style entry points)
+ * and the icp:public / icp:private metadata sections.
+ */
+export function inspectWasm(input: Buffer): WasmInspection {
+  const bytes = decompressWasm(input);
+  const sections = parseWasmSections(bytes);
+
+  const exportSection = sections.find(s => s.name === 'export');
+  const metadata: WasmMetadata[] = [];
+  for (const section of sections) {
+    const match = section.name.match(METADATA_SECTION);
+    if (!match) continue;
+    const { next: contentStart } = readName(bytes, section.offset);
+    const content = bytes.subarray(contentStart, section.offset + section.size);
+    metadata.push({ name: match[2], visibility: match[1] as 'public' | 'private', size: content.length, value: content.toString('utf-8') });
+  }
+
+  return {
+    gzipped: bytes !== input,
+    moduleSize: bytes.length,
+    moduleSha256: createHash('sha256').update(bytes).digest('hex'),
+    sections,
+    exports: exportSection ? parseExports(bytes, exportSection) : [],
+    metadata,
+  };
+}
+
+export function inspectWasmFile(filePath: string): WasmInspection {
+  return inspectWasm(readFileSync(filePath));
+}
+
+export function metadataValue(inspection: WasmInspection, name: string): string | null {
+  return inspection.metadata.find(m => m.name === name)?.value ?? null;
+}
+
+export function checkEmbeddedCommit(inspection: WasmInspection, expectedCommit: string | null): EmbeddedCommitCheck {
+  const embedded = metadataValue(inspection, 'git_commit_id')?.trim() || null;
+  const expected = expectedCommit?.trim() || null;
+  let status: EmbeddedCommitStatus;
+  if (!embedded) {
+    status = 'missing';
+  } else if (!expected) {
+    status = 'no-commit';
+  } else {
+    status = embedded.toLowerCase() === expected.toLowerCase() ? 'match' : 'mismatch';
+  }
+  return { status, embedded, expected };
+}
+
+// Canister entry points grouped by kind, e.g. { update: [...], query: [...], lifecycle: [...] }
+export function canisterMethods(inspection: WasmInspection): Record<'update' | 'query' | 'lifecycle', string[]> {
+  const methods = { update: [] as string[], query: [] as string[], lifecycle: [] as string[] };
+  for (const { name, kind } of inspection.exports) {
+    if (kind !== 'func') continue;
+    const match = name.match(/^canister_(update|query|composite_query) (.+)$/);
+    if (match) {
+      methods[match[1] === 'update' ? 'update' : 'query'].push(match[2]);
+    } else if (name.startsWith('canister_')) {
+      methods.lifecycle.push(name);
+    }
+  }
+  return methods;
+}
+
+// Short single-line values (ignoring a trailing newline) are shown in full
+function inlineValue(metadata: WasmMetadata): string | null {
+  const text = metadata.value.trim();
+  return text.length <= MAX_INLINE_METADATA && !text.includes('\n') ? text : null;
+}
+
+function commitStatusLabel(check: EmbeddedCommitCheck): string {
+  switch (check.status) {
+    case 'match':
+      return '✅ MATCHES PROPOSAL COMMIT';
+    case 'mismatch':
+      return '❌ DIFFERS FROM PROPOSAL COMMIT';
+    case 'missing':
+      return '⚠️ NOT EMBEDDED';
+    case 'no-commit':
+      return '⚠️ NO PROPOSAL COMMIT TO COMPARE';
+  }
+}
+
+export function formatWasmInspectionSection(inspection: WasmInspection, check: EmbeddedCommitCheck): string {
+  const methods = canisterMethods(inspection);
+
+  let section = `### WASM Contents: embedded commit ${commitStatusLabel(check)}
+`;
+
+  if (check.status === 'mismatch') {
+    section += `
+> ❌ The module says it was built from \`${check.embedded}\`, but the proposal names \`${check.expected}\`.
+`;
+  }
+
+  section += `
+| Property | Value |
+|----------|-------|
+| Embedded commit | \`${check.embedded || 'none'}\` |
+| Proposal commit | \`${check.expected || 'none'}\` |
+| Gzipped | ${inspection.gzipped ? 'yes' : 'no'} |
+| Module size | ${inspection.moduleSize} bytes |
+| Module SHA-256 (decompressed) | \`${inspection.moduleSha256}\` |
+| Exported methods | ${methods.update.length} update, ${methods.query.length} query, ${methods.lifecycle.length} lifecycle |
+`;
+
+  if (inspection.metadata.length > 0) {
+    section += `
+| Metadata | Visibility | Size | Value |
+|----------|------------|------|-------|
+${inspection.metadata.map(m => {
+    const inline = inlineValue(m);
+    return `| \`${m.name}\` | ${m.visibility} | ${m.size} | ${inline !== null ? `\`${inline}\`` : '-'} |`;
+  }).join('\n')}
+`;
+  }
+
+  section += `
+<details><summary>Sections</summary>
+
+| Section | Size |
+|---------|------|
+${inspection.sections.map(s => `| \`${s.name}\` | ${s.size} |`).join('\n')}
+
+</details>
+`;
+
+  return section;
+}
+
+export function printInspection(inspection: WasmInspection, check: EmbeddedCommitCheck) {
+  const methods = canisterMethods(inspection);
+  console.log(`Gzipped:         ${inspection.gzipped ? 'yes' : 'no'}`);
+  console.log(`Module size:     ${inspection.moduleSize} bytes`);
+  console.log(`Module SHA-256:  ${inspection.moduleSha256}`);
+  console.log(`Exports:         ${inspection.exports.length} (${methods.update.length} update, ${methods.query.length} query, ${methods.lifecycle.length} lifecycle)`);
+  console.log('');
+  console.log('Sections:');
+  for (const section of inspection.sections) {
+    console.log(`  ${section.name.padEnd(40)} ${section.size} bytes`);
+  }
+  console.log('');
+  console.log('Metadata:');
+  for (const m of inspection.metadata) {
+    console.log(`  ${m.visibility.padEnd(8)} ${m.name.padEnd(30)} ${inlineValue(m) ?? `(${m.size} bytes)`}`);
+  }
+  if (inspection.metadata.length === 0) {
+    console.log('  (none)');
+  }
+  console.log('');
+  console.log(`Embedded commit: ${check.embedded || 'none'}`);
+  console.log(`Expected commit: ${check.expected || 'none'}`);
+  console.log(`Commit check:    ${commitStatusLabel(check)}`);
+}
+
+async function main() {
+  const [filePath, expectedCommit] = process.argv.slice(2);
+  if (!filePath) {
+    console.error('Usage: npx tsx src/wasm-inspector.ts <module.wasm[.gz]> [expected-commit]');
+    process.exit(1);
+  }
+
+  const inspection = inspectWasmFile(filePath);
+  const check = checkEmbeddedCommit(inspection, expectedCommit ?? null);
+
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log(`  WASM INSPECTION: ${filePath}`);
+  console.log('═══════════════════════════════════════════════════════════════');
+  printInspection(inspection, check);
+
+  process.exit(check.status === 'mismatch' ? 1 : 0);
+}
+
+// Only run main if this is the entry point
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch((err) => {
+    console.error('Error inspecting WASM:', err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { gunzipSync } from 'zlib';
+
+const WASM_MAGIC = Buffer.from([0x00, 0x61, 0x73, 0x6d]);
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+
+// Names of the known section ids in the WebAssembly binary format
+const SECTION_NAMES: Record<number, string> = {
+  0: 'custom',
+  1: 'type',
+  2: 'import',
+  3: 'function',
+  4: 'table',
+  5: 'memory',
+  6: 'global',
+  7: 'export',
+  8: 'start',
+  9: 'element',
+  10: 'code',
+  11: 'data',
+  12: 'datacount',
+  13: 'tag',
+};
+
+export interface WasmSection {
+  id: number;
+  // e.g. "code", or "custom:icp:public git_commit_id" for custom sections
+  name: string;
+  // Offset of the section payload in the decompressed module
+  offset: number;
+  size: number;
+  sha256: string;
+}
+
+export interface SectionDifference {
+  name: string;
+  // null when the section exists in only one module
+  a: { size: number; sha256: string } | null;
+  b: { size: number; sha256: string } | null;
+}
+
+function sha256(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+// Canister modules are usually shipped gzipped; section parsing needs the raw module
+export function decompressWasm(bytes: Buffer): Buffer {
+  return bytes.subarray(0, 2).equals(GZIP_MAGIC) ? gunzipSync(bytes) : bytes;
+}
+
+export function readLeb128(bytes: Buffer, offset: number): { value: number; next: number } {
+  let value = 0;
+  let shift = 0;
+  let pos = offset;
+  for (;;) {
+    if (pos >= bytes.length) {
+      throw new Error(`Truncated LEB128 at offset ${offset}`);
+    }
+    const byte = bytes[pos++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      return { value, next: pos };
+    }
+    shift += 7;
+  }
+}
+
+/**
+ * Split a module (gzipped or not) into its sections. Custom sections are
+ * named after their embedded name, since a module can carry many of them.
+ */
+export function parseWasmSections(input: Buffer): WasmSection[] {
+  const bytes = decompressWasm(input);
+  if (bytes.length < 8 || !bytes.subarray(0, 4).equals(WASM_MAGIC)) {
+    throw new Error('Not a WebAssembly module (missing \\0asm header)');
+  }
+
+  const sections: WasmSection[] = [];
+  let pos = 8;
+  while (pos < bytes.length) {
+    const id = bytes[pos];
+    const { value: size, next: start } = readLeb128(bytes, pos + 1);
+    const end = start + size;
+    if (end > bytes.length) {
+      throw new Error(`Section ${id} at offset ${pos} runs past the end of the module`);
+    }
+
+    let name = SECTION_NAMES[id] ?? `unknown-${id}`;
+    if (id === 0) {
+      const { value: nameLength, next: nameStart } = readLeb128(bytes, start);
+      name = `custom:${bytes.subarray(nameStart, nameStart + nameLength).toString('utf-8')}`;
+    }
+
+    sections.push({ id, name, offset: start, size, sha256: sha256(bytes.subarray(start, end)) });
+    pos = end;
+  }
+  return sections;
+}
+
+// Repeated names (several custom sections of one name) are numbered so they pair up in order
+function keyed(sections: WasmSection[]): Map<string, WasmSection> {
+  const seen = new Map<string, number>();
+  const byKey = new Map<string, WasmSection>();
+  for (const section of sections) {
+    const count = (seen.get(section.name) ?? 0) + 1;
+    seen.set(section.name, count);
+    byKey.set(count === 1 ? section.name : `${section.name}#${count}`, section);
+  }
+  return byKey;
+}
+
+/**
+ * List the sections whose contents differ between two modules, including
+ * sections present in only one of them. Identical modules give an empty list.
+ */
+export function diffWasmSections(a: Buffer, b: Buffer): SectionDifference[] {
+  const left = keyed(parseWasmSections(a));
+  const right = keyed(parseWasmSections(b));
+  const names = [...new Set([...left.keys(), ...right.keys()])];
+
+  return names
+    .filter(name => left.get(name)?.sha256 !== right.get(name)?.sha256)
+    .map(name => {
+      const l = left.get(name);
+      const r = right.get(name);
+      return {
+        name,
+        a: l ? { size: l.size, sha256: l.sha256 } : null,
+        b: r ? { size: r.size, sha256: r.sha256 } : null,
+      };
+    });
+}